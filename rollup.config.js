@@ -18,7 +18,12 @@ const external = [
   'https',
   'url',
   'crypto',
-  'os'
+  'async_hooks',
+  'readline',
+  'os',
+  'zlib',
+  'stream/promises',
+  'worker_threads'
 ];
 
 const plugins = [
@@ -58,5 +63,16 @@ export default [
     },
     external,
     plugins
+  },
+  // Worker thread entry of WorkerTransport, resolved next to the main bundles
+  {
+    input: 'src/transports/transport-worker.ts',
+    output: {
+      file: 'dist/transport-worker.js',
+      format: 'esm',
+      sourcemap: true
+    },
+    external,
+    plugins
   }
 ];
\ No newline at end of file
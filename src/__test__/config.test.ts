@@ -0,0 +1,262 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { loadConfig, watchConfig } from '../config';
+import { LoggerFactory } from '../factory';
+import { PatternFormatter } from '../formatters';
+import { ConsoleTransport, FileTransport, MemoryTransport } from '../transports';
+import { LogLevel } from '../types/enums/log-level.enum';
+import { LogEntry } from '../types/log-entry.interface';
+
+describe('loadConfig', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'glyphlog-config-'));
+    file = path.join(dir, 'glyphlog.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should read levels and transports from environment variables', () => {
+    const options = loadConfig({
+      env: {
+        GLYPHLOG_LEVEL: 'DEBUG',
+        GLYPHLOG_FILE: path.join(dir, 'app.log'),
+        GLYPHLOG_LEVEL_db: 'warn',
+        GLYPHLOG_LEVEL_api__http: 'trace',
+      },
+    });
+
+    expect(options.defaultConfig?.level).toBe(LogLevel.DEBUG);
+    expect(options.defaultConfig?.transports?.map(transport => transport.constructor)).toEqual([
+      ConsoleTransport,
+      FileTransport,
+    ]);
+    expect(options.loggers).toEqual({
+      db: { level: LogLevel.WARN },
+      'api.http': { level: LogLevel.TRACE },
+    });
+  });
+
+  it('should build transports, formatters, middleware and logger settings from a file', async () => {
+    await fs.writeFile(
+      file,
+      JSON.stringify({
+        level: 'info',
+        defaultMeta: { service: 'billing' },
+        transports: [
+          { type: 'memory' },
+          { type: 'console', level: 'error', formatter: { type: 'pattern', pattern: '%msg' } },
+        ],
+        middleware: [{ type: 'redact', paths: ['context.password'], patterns: ['email'] }],
+        loggers: { db: { level: 'debug' } },
+      })
+    );
+
+    const options = loadConfig({ file, env: {} });
+    const [memory, consoleTransport] = options.defaultConfig?.transports ?? [];
+    const factory = new LoggerFactory(options);
+
+    factory.get('db').debug('Connected as ada@example.com', { password: 'secret' });
+    factory.get('api').debug('Dropped');
+
+    expect(consoleTransport).toMatchObject({ level: LogLevel.ERROR });
+    expect((consoleTransport as unknown as { formatter: unknown }).formatter).toBeInstanceOf(
+      PatternFormatter
+    );
+    expect((memory as MemoryTransport).getLogs()).toEqual([
+      expect.objectContaining({
+        level: LogLevel.DEBUG,
+        message: 'Connected as [REDACTED]',
+        context: { password: '[REDACTED]' },
+        meta: { service: 'billing', logger: 'db' },
+      }),
+    ]);
+  });
+
+  it('should let environment variables override the file', async () => {
+    await fs.writeFile(file, JSON.stringify({ level: 'info', loggers: { db: { level: 'info' } } }));
+
+    const options = loadConfig({
+      env: { GLYPHLOG_CONFIG: file, GLYPHLOG_LEVEL: 'error', GLYPHLOG_LEVEL_db: 'debug' },
+    });
+
+    expect(options.defaultConfig?.level).toBe(LogLevel.ERROR);
+    expect(options.loggers?.db?.level).toBe(LogLevel.DEBUG);
+  });
+
+  it('should report every invalid value', async () => {
+    await fs.writeFile(
+      file,
+      JSON.stringify({
+        level: 'verbose',
+        transports: [{ type: 'file', maxSize: '10MB' }, { type: 'kafka' }],
+        middleware: [{ type: 'sample', rates: { debug: 'often' } }],
+        colour: true,
+      })
+    );
+
+    expect(() => loadConfig({ file, env: { GLYPHLOG_TRANSPORTS: 'console,kafka' } })).toThrow(
+      [
+        'Invalid logger configuration:',
+        `  - ${file}: level: expected one of trace, debug, info, warn, error, fatal, got "verbose"`,
+        `  - ${file}: transports[0].maxSize: expected a number, got "10MB"`,
+        `  - ${file}: transports[0].filename: required`,
+        `  - ${file}: transports[1].type: expected one of console, file, http, memory, stream, syslog, got "kafka"`,
+        `  - ${file}: middleware[0].rates.debug: expected a number, got "often"`,
+        `  - ${file}: colour: unknown option`,
+        '  - GLYPHLOG_TRANSPORTS: expected console or file, got "kafka"',
+      ].join('\n')
+    );
+  });
+
+  it('should report unreadable files', () => {
+    expect(() => loadConfig({ file: path.join(dir, 'missing.json'), env: {} })).toThrow(
+      /Invalid logger configuration:\n {2}- .*missing\.json: ENOENT/
+    );
+  });
+});
+
+describe('Hot reload', () => {
+  let dir: string;
+  let file: string;
+  let unwatch: (() => void) | undefined;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'glyphlog-reload-'));
+    file = path.join(dir, 'glyphlog.json');
+  });
+
+  afterEach(async () => {
+    unwatch?.();
+    unwatch = undefined;
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should apply levels, silent flags and transports to registered loggers', async () => {
+    const memory = new MemoryTransport();
+    const replaced = new MemoryTransport();
+    const close = vi.spyOn(replaced, 'close');
+    const factory = new LoggerFactory({ defaultConfig: { transports: [replaced] } });
+    const api = factory.create('api');
+    const db = factory.create('db', { level: LogLevel.WARN });
+    const request = api.child({ requestId: 'req-1' });
+
+    await factory.configure({
+      defaultConfig: { level: LogLevel.ERROR, transports: [memory] },
+      loggers: { api: { level: LogLevel.DEBUG }, db: { silent: true } },
+    });
+
+    request.debug('From child');
+    db.error('Silenced');
+    expect(api.getLevel()).toBe(LogLevel.DEBUG);
+    expect(db.getLevel()).toBe(LogLevel.WARN);
+    expect(memory.getLogs().map(log => log.message)).toEqual(['From child']);
+    expect(close).toHaveBeenCalled();
+
+    // Settings left out of the new configuration fall back to those given in code
+    await factory.configure({ defaultConfig: { transports: [memory] } });
+    expect(api.getLevel()).toBe(LogLevel.INFO);
+    expect(db.getLevel()).toBe(LogLevel.WARN);
+    expect(db.isSilent()).toBe(false);
+  });
+
+  it('should keep transports added at runtime', async () => {
+    const configured = new MemoryTransport();
+    const added = new MemoryTransport();
+    const close = vi.spyOn(added, 'close');
+    const factory = new LoggerFactory({ defaultConfig: { transports: [configured] } });
+    const api = factory.create('api');
+    api.addTransport(added);
+
+    const memory = new MemoryTransport();
+    await factory.configure({ defaultConfig: { transports: [memory] } });
+    api.info('After reload');
+
+    expect(api.getTransports()).toEqual([memory, added]);
+    expect(added.getLogs().map(log => log.message)).toEqual(['After reload']);
+    expect(close).not.toHaveBeenCalled();
+  });
+
+  it('should keep the factory middleware unless the configuration defines one', async () => {
+    const memory = new MemoryTransport();
+    const tag = vi.fn((entry: LogEntry, next: () => void) => next());
+    const replacement = vi.fn((entry: LogEntry, next: () => void) => next());
+    const factory = new LoggerFactory({ middleware: [tag] });
+
+    await factory.configure({ defaultConfig: { transports: [memory] } });
+    factory.create('api').info('Tagged');
+    expect(tag).toHaveBeenCalledTimes(1);
+
+    await factory.configure({ defaultConfig: { transports: [memory] }, middleware: [replacement] });
+    factory.create('db').info('Replaced');
+    expect(tag).toHaveBeenCalledTimes(1);
+    expect(replacement).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep the transports whose options did not change', async () => {
+    const transports = [{ type: 'memory' }, { type: 'memory', maxSize: 10 }];
+    await fs.writeFile(file, JSON.stringify({ level: 'info', transports }));
+    const factory = new LoggerFactory(loadConfig({ file, env: {} }));
+    const logger = factory.create('api');
+    const [kept, replaced] = logger.getTransports();
+    const close = vi.spyOn(kept as MemoryTransport, 'close');
+    const closeReplaced = vi.spyOn(replaced as MemoryTransport, 'close');
+    unwatch = watchConfig({ file, env: {}, factory, watch: false });
+
+    await fs.writeFile(
+      file,
+      JSON.stringify({
+        level: 'debug',
+        transports: [transports[0], { type: 'memory', maxSize: 20 }],
+      })
+    );
+    process.emit('SIGUSR2', 'SIGUSR2');
+    await vi.waitFor(() => expect(logger.getLevel()).toBe(LogLevel.DEBUG));
+
+    expect(logger.getTransports()[0]).toBe(kept);
+    expect(logger.getTransports()[1]).not.toBe(replaced);
+    expect(close).not.toHaveBeenCalled();
+    expect(closeReplaced).toHaveBeenCalled();
+  });
+
+  it('should reload when the file changes and keep the configuration when invalid', async () => {
+    await fs.writeFile(file, JSON.stringify({ level: 'info' }));
+    const factory = new LoggerFactory(loadConfig({ file, env: {} }));
+    const logger = factory.create('api');
+    const onReload = vi.fn();
+    const onError = vi.fn();
+    unwatch = watchConfig({
+      file,
+      env: {},
+      factory,
+      signal: false,
+      debounce: 10,
+      onReload,
+      onError,
+    });
+
+    await fs.writeFile(file, JSON.stringify({ loggers: { api: { level: 'debug' } } }));
+    await vi.waitFor(() => expect(logger.getLevel()).toBe(LogLevel.DEBUG));
+    expect(onReload).toHaveBeenCalled();
+
+    await fs.writeFile(file, JSON.stringify({ level: 'loud' }));
+    await vi.waitFor(() => expect(onError).toHaveBeenCalled());
+    expect(logger.getLevel()).toBe(LogLevel.DEBUG);
+  });
+
+  it('should reload on a signal', async () => {
+    await fs.writeFile(file, JSON.stringify({ level: 'info' }));
+    const factory = new LoggerFactory(loadConfig({ file, env: {} }));
+    const logger = factory.create('api');
+    unwatch = watchConfig({ file, env: { GLYPHLOG_LEVEL: 'trace' }, factory, watch: false });
+
+    process.emit('SIGUSR2', 'SIGUSR2');
+    await vi.waitFor(() => expect(logger.getLevel()).toBe(LogLevel.TRACE));
+  });
+});
@@ -0,0 +1,212 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FileTransport } from '../transports';
+import { LogLevel } from '../types/enums/log-level.enum';
+import { LogEntry } from '../types/log-entry.interface';
+
+const entry = (message: string): LogEntry => ({
+  level: LogLevel.INFO,
+  message,
+  timestamp: new Date(),
+});
+
+describe('FileTransport rotation', () => {
+  let dir: string;
+  let filename: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'glyphlog-file-'));
+    filename = path.join(dir, 'app.log');
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should resume the size of an existing file and count bytes', async () => {
+    await fs.writeFile(filename, 'x'.repeat(90));
+    const transport = new FileTransport({
+      filename,
+      maxSize: 100,
+      formatter: { format: e => e.message },
+    });
+
+    // 9 characters but 14 bytes, since 'é' takes two bytes in UTF-8
+    transport.log(entry('ééééé'.padEnd(8, '.')));
+    await transport.close();
+
+    expect(await fs.readFile(`${filename}.1`, 'utf8')).toBe('x'.repeat(90));
+    expect(await fs.readFile(filename, 'utf8')).toBe('ééééé...\n');
+  });
+
+  it('should date-stamp files and switch at the start of a new period', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date(2026, 9, 19, 23, 59));
+    const onRotate = vi.fn();
+    const transport = new FileTransport({ filename, frequency: 'daily', onRotate });
+
+    transport.log(entry('before midnight'));
+    vi.setSystemTime(new Date(2026, 9, 20, 0, 1));
+    transport.log(entry('after midnight'));
+    await transport.flush();
+
+    const previous = path.join(dir, 'app-2026-10-19.log');
+    const active = path.join(dir, 'app-2026-10-20.log');
+    expect(await fs.readFile(previous, 'utf8')).toContain('before midnight');
+    expect(await fs.readFile(active, 'utf8')).toContain('after midnight');
+    expect(onRotate).toHaveBeenCalledWith(previous, active);
+
+    const messages: string[] = [];
+    for await (const logged of transport.query()) messages.push(logged.message);
+    expect(messages).toEqual(['before midnight', 'after midnight']);
+    await transport.close();
+  });
+
+  it('should gzip rotated files and still query them', async () => {
+    const onRotate = vi.fn();
+    const transport = new FileTransport({
+      filename,
+      json: true,
+      maxSize: 100,
+      compress: true,
+      onRotate,
+    });
+
+    transport.log(entry('first'));
+    transport.log(entry('second'));
+    await transport.flush();
+
+    expect(onRotate).toHaveBeenCalledWith(`${filename}.1.gz`, filename);
+    expect((await fs.readdir(dir)).sort()).toEqual(['app.log', 'app.log.1.gz']);
+
+    const messages: string[] = [];
+    for await (const logged of transport.query()) messages.push(logged.message);
+    expect(messages).toEqual(['first', 'second']);
+    await transport.close();
+  });
+
+  it('should prune rotated files by count and age', async () => {
+    const stale = path.join(dir, 'app-2020-01-01.log');
+    await fs.writeFile(stale, 'old\n');
+    await fs.utimes(stale, new Date(2020, 0, 1), new Date(2020, 0, 1));
+
+    const transport = new FileTransport({
+      filename,
+      formatter: { format: e => e.message },
+      maxSize: 10,
+      maxFiles: 3,
+      maxAge: 24 * 60 * 60 * 1000,
+    });
+
+    for (const message of ['one', 'two', 'three', 'four', 'five']) {
+      transport.log(entry(message.padEnd(9, '.')));
+    }
+    await transport.close();
+
+    expect((await fs.readdir(dir)).sort()).toEqual(['app.log', 'app.log.1', 'app.log.2']);
+    expect(await fs.readFile(`${filename}.2`, 'utf8')).toBe('three....\n');
+  });
+
+  it('should not count the active file as rotated when its path is not normalized', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date(2026, 9, 19, 23, 59));
+    // The file of the next period already exists, e.g. from a previous run
+    const active = path.join(dir, 'app-2026-10-20.log');
+    await fs.writeFile(active, 'earlier\n');
+    await fs.utimes(active, new Date(2020, 0, 1), new Date(2020, 0, 1));
+
+    const transport = new FileTransport({
+      filename: `./${path.relative(process.cwd(), filename)}`,
+      formatter: { format: e => e.message },
+      frequency: 'daily',
+      maxFiles: 2,
+      maxAge: 24 * 60 * 60 * 1000,
+    });
+
+    transport.log(entry('before midnight'));
+    vi.setSystemTime(new Date(2026, 9, 20, 0, 1));
+    transport.log(entry('after midnight'));
+    await transport.close();
+
+    expect((await fs.readdir(dir)).sort()).toEqual(['app-2026-10-19.log', 'app-2026-10-20.log']);
+    expect(await fs.readFile(active, 'utf8')).toBe('earlier\nafter midnight\n');
+  });
+
+  it('should keep the logging order across batches and rotations', async () => {
+    const transport = new FileTransport({
+      filename,
+      json: true,
+      maxSize: 256,
+      maxFiles: 100,
+      bufferSize: 32,
+    });
+
+    const expected = Array.from({ length: 50 }, (_, i) => `line ${i}`);
+    for (const message of expected) transport.log(entry(message));
+    await transport.flush();
+
+    const messages: string[] = [];
+    for await (const logged of transport.query()) messages.push(logged.message);
+    expect(messages).toEqual(expected);
+    await transport.close();
+  });
+
+  it('should buffer entries until the flush interval elapses', async () => {
+    const transport = new FileTransport({
+      filename,
+      formatter: { format: e => e.message },
+      flushInterval: 20,
+    });
+
+    transport.log(entry('buffered'));
+    await expect(fs.readFile(filename, 'utf8')).rejects.toThrow();
+
+    await vi.waitFor(async () => {
+      expect(await fs.readFile(filename, 'utf8')).toBe('buffered\n');
+    });
+    await transport.close();
+  });
+
+  it('should drain the buffer on close', async () => {
+    const transport = new FileTransport({ filename, formatter: { format: e => e.message } });
+
+    transport.log(entry('one'));
+    transport.log(entry('two'));
+    await transport.close();
+
+    expect(await fs.readFile(filename, 'utf8')).toBe('one\ntwo\n');
+  });
+
+  it('should drop new entries while maxBufferSize bytes wait to be written', async () => {
+    const transport = new FileTransport({
+      filename,
+      formatter: { format: e => e.message },
+      maxBufferSize: 20,
+    });
+
+    for (const message of ['one......', 'two......', 'three....']) transport.log(entry(message));
+    expect(transport.getStats()).toEqual({ buffered: 2, dropped: 1 });
+
+    await transport.flush();
+    expect(transport.getStats()).toEqual({ buffered: 0, dropped: 1 });
+    transport.log(entry('four.....'));
+    await transport.close();
+
+    expect(await fs.readFile(filename, 'utf8')).toBe('one......\ntwo......\nfour.....\n');
+  });
+
+  it('should wait for the stream to drain between batches', async () => {
+    const transport = new FileTransport({ filename, formatter: { format: e => e.message } });
+    const large = 'x'.repeat(256 * 1024);
+
+    transport.log(entry(large));
+    transport.log(entry('after'));
+    await transport.close();
+
+    expect(await fs.readFile(filename, 'utf8')).toBe(`${large}\nafter\n`);
+    expect(transport.getStats()).toEqual({ buffered: 0, dropped: 0 });
+  });
+});
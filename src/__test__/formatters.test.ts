@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { PatternFormatter } from '../formatters';
+import { LogLevel } from '../types/enums/log-level.enum';
+import { LogEntry } from '../types/log-entry.interface';
+
+const entry: LogEntry = {
+  level: LogLevel.WARN,
+  message: 'Slow query',
+  timestamp: new Date(2026, 9, 19, 8, 5, 9, 42),
+  context: { db: { table: 'users' }, duration: 1200 },
+  meta: { requestId: 'req-1', logger: 'api.db' },
+};
+
+describe('PatternFormatter', () => {
+  it('should render timestamp, level, message and context', () => {
+    const formatter = new PatternFormatter('%d{HH:mm:ss} [%level] %msg %ctx');
+
+    expect(formatter.format(entry)).toBe(
+      '08:05:09 [WARN] Slow query {"db":{"table":"users"},"duration":1200}'
+    );
+  });
+
+  it('should resolve meta and context paths', () => {
+    const formatter = new PatternFormatter('%logger %meta.requestId %ctx.db.table %ctx.missing|');
+
+    expect(formatter.format(entry)).toBe('api.db req-1 users |');
+  });
+
+  it('should pad tokens and keep literals', () => {
+    const formatter = new PatternFormatter('[%-5p][%6m] 100%%%n');
+
+    expect(formatter.format({ ...entry, level: LogLevel.INFO, message: 'ok' })).toBe(
+      '[INFO ][    ok] 100%\n'
+    );
+  });
+
+  it('should render error details and caller', () => {
+    const error = new RangeError('out of bounds');
+    const formatter = new PatternFormatter('%err|%err.name|%err.message|%caller|%caller.function', {
+      placeholder: '-',
+    });
+
+    const formatted = formatter.format({
+      ...entry,
+      error,
+      meta: { caller: { function: 'handler', file: 'app.ts', line: 12, column: 3 } },
+    });
+
+    expect(formatted).toBe('RangeError: out of bounds|RangeError|out of bounds|app.ts:12|handler');
+    expect(formatter.format({ ...entry, meta: {} })).toBe('-|-|-|-|-');
+  });
+
+  it('should reject unknown tokens', () => {
+    expect(() => new PatternFormatter('%bogus')).toThrow("Unknown pattern token '%bogus'");
+  });
+});
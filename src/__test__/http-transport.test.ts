@@ -0,0 +1,171 @@
+import fs from 'fs/promises';
+import http from 'http';
+import { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { HttpTransport } from '../transports';
+import { LogLevel } from '../types/enums/log-level.enum';
+import { LogEntry } from '../types/log-entry.interface';
+
+interface Received {
+  logs: { level: string; message: string }[];
+}
+
+const entry = (message: string, level = LogLevel.INFO): LogEntry => ({
+  level,
+  message,
+  timestamp: new Date(),
+});
+
+describe('HttpTransport', () => {
+  let server: http.Server;
+  let url: string;
+  let received: Received[];
+  let status: number;
+  let dir: string;
+
+  beforeEach(async () => {
+    received = [];
+    status = 200;
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'glyphlog-http-'));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk: Buffer) => (body += chunk.toString()));
+      req.on('end', () => {
+        if (status === 200) received.push(JSON.parse(body) as Received);
+        res.statusCode = status;
+        res.end();
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/logs`;
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await new Promise(resolve => server.close(resolve));
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  const messages = () => received.flatMap(batch => batch.logs.map(log => log.message));
+
+  it('should post batches once batchSize is reached', async () => {
+    const transport = new HttpTransport({ url, batchSize: 2, flushInterval: 60000 });
+
+    transport.log(entry('one'));
+    transport.log(entry('two'));
+    await transport.flush();
+
+    expect(received).toHaveLength(1);
+    expect(messages()).toEqual(['one', 'two']);
+    await transport.close();
+  });
+
+  it('should embed the output of a custom formatter', async () => {
+    const transport = new HttpTransport({
+      url,
+      batchSize: 10,
+      flushInterval: 60000,
+      formatter: { format: e => `${LogLevel[e.level]} ${e.message}` },
+    });
+
+    transport.log(entry('plain'));
+    await transport.flush();
+
+    expect(received[0]?.logs).toEqual(['INFO plain']);
+    await transport.close();
+  });
+
+  it('should embed custom formatter output as JSON when json is set', async () => {
+    const transport = new HttpTransport({
+      url,
+      batchSize: 10,
+      flushInterval: 60000,
+      json: true,
+      formatter: { format: e => JSON.stringify({ msg: e.message }) },
+    });
+
+    transport.log(entry('raw'));
+    await transport.flush();
+
+    expect(received[0]?.logs).toEqual([{ msg: 'raw' }]);
+    await transport.close();
+  });
+
+  it('should retry failed batches with backoff', async () => {
+    status = 503;
+    const transport = new HttpTransport({
+      url,
+      batchSize: 1,
+      flushInterval: 60000,
+      retry: { initialDelay: 20, jitter: 0 },
+    });
+
+    transport.log(entry('retried'));
+    await transport.flush();
+    expect(transport.getStats()).toMatchObject({ buffered: 1, retryAttempt: 1 });
+
+    status = 200;
+    await vi.waitFor(() => expect(messages()).toEqual(['retried']));
+    expect(transport.getStats()).toMatchObject({ buffered: 0, retryAttempt: 0 });
+    await transport.close();
+  });
+
+  it('should not retry batches rejected with a client error', async () => {
+    status = 400;
+    const transport = new HttpTransport({ url, batchSize: 10, flushInterval: 60000 });
+
+    transport.log(entry('invalid'));
+    await transport.flush();
+
+    expect(transport.getStats()).toMatchObject({ buffered: 0, dropped: 1, retryAttempt: 0 });
+    await transport.close();
+  });
+
+  it.each([
+    ['oldest', ['info', 'error']],
+    ['newest', ['debug', 'info']],
+    ['lowest-level', ['info', 'error']],
+  ] as const)('should bound the buffer with the %s drop policy', async (dropPolicy, expected) => {
+    const transport = new HttpTransport({
+      url,
+      level: LogLevel.TRACE,
+      batchSize: 10,
+      flushInterval: 60000,
+      maxBufferSize: 2,
+      dropPolicy,
+    });
+
+    transport.log(entry('debug', LogLevel.DEBUG));
+    transport.log(entry('info', LogLevel.INFO));
+    transport.log(entry('error', LogLevel.ERROR));
+    expect(transport.getStats()).toMatchObject({ buffered: 2, dropped: 1 });
+
+    await transport.close();
+    expect(messages()).toEqual(expected);
+  });
+
+  it('should spool undelivered batches and replay them on startup', async () => {
+    status = 503;
+    const spoolDir = path.join(dir, 'spool');
+    const first = new HttpTransport({ url, spoolDir, batchSize: 2, flushInterval: 60000 });
+
+    first.log(entry('a'));
+    first.log(entry('b'));
+    first.log(entry('c'));
+    await first.close();
+
+    const spooled = await fs.readdir(spoolDir);
+    expect(spooled).toHaveLength(2);
+    expect(received).toHaveLength(0);
+
+    status = 200;
+    const second = new HttpTransport({ url, spoolDir, flushInterval: 60000 });
+    await vi.waitFor(() => expect(messages()).toEqual(['a', 'b', 'c']));
+    expect(await fs.readdir(spoolDir)).toHaveLength(0);
+    await second.close();
+  });
+});
@@ -1,6 +1,8 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import { ConsoleTransport, MemoryTransport } from '../transports';
+import { LoggerFactory } from '../factory';
 import { Logger } from '../loggers/index';
+import { LogEntry } from '../types/log-entry.interface';
 import { LogLevel } from '../types/enums/log-level.enum';
 
 describe('Logger', () => {
@@ -17,6 +19,7 @@ describe('Logger', () => {
 
   afterEach(() => {
     memoryTransport.clear();
+    vi.useRealTimers();
   });
 
   describe('Basic logging', () => {
@@ -127,6 +130,30 @@ describe('Logger', () => {
       expect(logs).toHaveLength(1);
       expect(logs[0]?.level).toBe(LogLevel.WARN);
     });
+
+    it('should follow later changes to the parent until set on the child', () => {
+      const childLogger = logger.child({ component: 'auth' });
+      const grandchild = childLogger.child({ step: 'verify' });
+      const otherTransport = new MemoryTransport();
+
+      logger.setLevel(LogLevel.ERROR);
+      logger.setTransports([otherTransport]);
+      grandchild.warn('Dropped');
+      grandchild.error('Routed');
+      expect(grandchild.getLevel()).toBe(LogLevel.ERROR);
+      expect(otherTransport.getLogs().map(log => log.message)).toEqual(['Routed']);
+
+      childLogger.setLevel(LogLevel.DEBUG);
+      logger.setSilent(true);
+      grandchild.debug('Own level');
+      expect(otherTransport.getLogs()).toHaveLength(1);
+
+      logger.setSilent(false);
+      grandchild.debug('Own level');
+      logger.debug('Parent level');
+      expect(otherTransport.getLogs().map(log => log.message)).toEqual(['Routed', 'Own level']);
+      expect(memoryTransport.getLogs()).toHaveLength(0);
+    });
   });
 
   describe('Transports', () => {
@@ -249,6 +276,251 @@ describe('Logger', () => {
         step2: true,
       });
     });
+
+    it('should drop entries when middleware does not call next', () => {
+      logger.use((entry, next) => {
+        if (entry.message !== 'drop me') next();
+      });
+
+      logger.info('drop me');
+      logger.info('keep me');
+
+      const logs = memoryTransport.getLogs();
+      expect(logs).toHaveLength(1);
+      expect(logs[0]?.message).toBe('keep me');
+    });
+
+    it('should process emitted entries with the following middleware only', () => {
+      const first = vi.fn((_entry, next) => next());
+      logger.use(first);
+      logger.use((entry, next, emit) => {
+        if (entry.message === 'original') {
+          emit({ ...entry, message: 'emitted' });
+        }
+        next();
+      });
+      logger.use((entry, next) => {
+        entry.meta = { ...entry.meta, last: true };
+        next();
+      });
+
+      logger.info('original');
+
+      expect(first).toHaveBeenCalledTimes(1);
+      const logs = memoryTransport.getLogs();
+      expect(logs.map(log => log.message)).toEqual(['emitted', 'original']);
+      expect(logs.every(log => log.meta?.last)).toBe(true);
+    });
+
+    it('should await async middleware and keep the logging order', async () => {
+      const transport = new MemoryTransport();
+      const asyncLogger = new Logger({ transports: [transport] });
+      asyncLogger.use(async (entry, next) => {
+        if (entry.message === 'slow') await new Promise(resolve => setTimeout(resolve, 20));
+        entry.meta = { ...entry.meta, enriched: true };
+        next();
+      });
+      asyncLogger.use(async (entry, next) => {
+        await Promise.resolve();
+        if (entry.message !== 'dropped') next();
+      });
+
+      asyncLogger.info('slow');
+      asyncLogger.info('dropped');
+      asyncLogger.info('fast');
+      expect(transport.getLogs()).toHaveLength(0);
+
+      await asyncLogger.flush();
+      const logs = transport.getLogs();
+      expect(logs.map(log => log.message)).toEqual(['slow', 'fast']);
+      expect(logs.every(log => log.meta?.enriched)).toBe(true);
+    });
+
+    it('should replace and remove named middleware', () => {
+      const tag = (value: string) => (entry: LogEntry, next: () => void) => {
+        entry.meta = { ...entry.meta, tags: [...((entry.meta?.tags as string[]) ?? []), value] };
+        next();
+      };
+      const anonymous = tag('anonymous');
+
+      logger.use(tag('first'), 'tagger');
+      logger.use(anonymous);
+      logger.use(tag('replaced'), 'tagger');
+      logger.info('tagged');
+
+      expect(logger.removeMiddleware('tagger')).toBe(true);
+      expect(logger.removeMiddleware(anonymous)).toBe(true);
+      expect(logger.removeMiddleware('missing')).toBe(false);
+      logger.info('untagged');
+
+      expect(memoryTransport.getLogs().map(log => log.meta?.tags)).toEqual([
+        ['replaced', 'anonymous'],
+        undefined,
+      ]);
+    });
+
+    it('should run factory, configured and added middleware in order', () => {
+      const order: string[] = [];
+      const step = (name: string) => (_entry: LogEntry, next: () => void) => {
+        order.push(name);
+        next();
+      };
+      const factory = new LoggerFactory({
+        middleware: [{ name: 'factory', middleware: step('factory') }],
+        loggers: { api: { middleware: [step('configured')] } },
+      });
+
+      const api = factory.createTestLogger('api');
+      api.setSilent(false);
+      api.use(step('added'));
+      api.info('ordered');
+      expect(order).toEqual(['factory', 'configured', 'added']);
+
+      expect(factory.removeMiddleware('factory')).toBe(true);
+      order.length = 0;
+      api.info('again');
+      const db = factory.createTestLogger('api.db');
+      db.setSilent(false);
+      db.info('inherited');
+      expect(order).toEqual(['configured', 'added', 'configured']);
+    });
+
+    it('should skip middleware that throws, rejects or times out', async () => {
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const transport = new MemoryTransport();
+      const timed = new Logger({ transports: [transport], middlewareTimeout: 10 });
+      timed.use(function throwing() {
+        throw new Error('sync failure');
+      });
+      timed.use(async function rejecting() {
+        await Promise.resolve();
+        throw new Error('async failure');
+      });
+      timed.use(function stuck() {
+        return new Promise<void>(() => {});
+      });
+      timed.use((entry, next) => {
+        entry.meta = { ...entry.meta, reached: true };
+        next();
+      });
+
+      expect(() => timed.info('isolated')).not.toThrow();
+      await timed.flush();
+
+      expect(transport.getLogs()).toMatchObject([{ message: 'isolated', meta: { reached: true } }]);
+      expect(consoleError.mock.calls.map(([message]) => message)).toEqual([
+        'Middleware throwing failed:',
+        'Middleware rejecting failed:',
+        'Middleware stuck timed out after 10ms',
+      ]);
+      consoleError.mockRestore();
+    });
+
+    it('should pass on entries whose middleware calls next() after returning', async () => {
+      vi.useFakeTimers();
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const transport = new MemoryTransport();
+      const late = new Logger({ transports: [transport], middlewareTimeout: 50 });
+      late.use(function deferred(entry, next) {
+        if (entry.message === 'deferred') setTimeout(next, 0);
+        else if (entry.message === 'too late') setTimeout(next, 100);
+        else next();
+      });
+
+      late.info('deferred');
+      late.info('too late');
+      late.info('immediate');
+      vi.advanceTimersByTime(100);
+      await late.flush();
+
+      // Late entries do not hold the following ones
+      expect(transport.getLogs().map(log => log.message)).toEqual(['immediate', 'deferred']);
+      expect(consoleError).toHaveBeenCalledWith(
+        expect.stringMatching(
+          /^Middleware deferred called next\(\) \d+ms after returning, the entry was dropped/
+        )
+      );
+      consoleError.mockRestore();
+    });
+  });
+
+  describe('Async context', () => {
+    it('should merge the active context into entries across async boundaries', async () => {
+      await logger.runWithContext({ requestId: 'req-1' }, async () => {
+        await new Promise(resolve => setTimeout(resolve, 1));
+        logger.info('Inside context');
+      });
+      logger.info('Outside context');
+
+      const logs = memoryTransport.getLogs();
+      expect(logs[0]?.meta?.requestId).toBe('req-1');
+      expect(logs[1]?.meta?.requestId).toBeUndefined();
+    });
+
+    it('should nest contexts and apply them to child loggers', () => {
+      const child = logger.child({ component: 'auth' });
+
+      logger.runWithContext({ requestId: 'req-2' }, () => {
+        logger.runWithContext({ userId: 'user-1' }, () => child.info('Nested'));
+      });
+
+      expect(memoryTransport.getLogs()[0]?.meta).toMatchObject({
+        component: 'auth',
+        requestId: 'req-2',
+        userId: 'user-1',
+      });
+    });
+
+    it('should wrap functions with withContext', () => {
+      const handler = logger.withContext({ requestId: 'req-3' }, (message: string) =>
+        logger.info(message)
+      );
+
+      handler('Wrapped');
+
+      expect(memoryTransport.getLogs()[0]?.meta?.requestId).toBe('req-3');
+    });
+  });
+
+  describe('Typed contexts', () => {
+    interface AppEvents {
+      'user.login': { userId: string; ip: string };
+    }
+
+    it('should log events with their name as the message', () => {
+      const typed = new Logger<{ service: string }, { userId: string }, AppEvents>({
+        transports: [memoryTransport],
+      });
+
+      typed.event('user.login', { userId: 'u1', ip: '10.0.0.1' });
+      typed.event('user.login', { userId: 'u2', ip: '10.0.0.2' }, LogLevel.WARN);
+
+      const logs = memoryTransport.getLogs();
+      expect(logs.map(log => log.message)).toEqual(['user.login', 'user.login']);
+      expect(logs[0]?.level).toBe(LogLevel.INFO);
+      expect(logs[0]?.context).toEqual({ userId: 'u1', ip: '10.0.0.1' });
+      expect(logs[1]?.level).toBe(LogLevel.WARN);
+    });
+
+    it('should drop or annotate entries rejected by the context validator', () => {
+      const validated = new Logger({
+        transports: [memoryTransport],
+        contextValidator: context => {
+          if ('password' in context) return false;
+          return typeof context.userId === 'string' ? true : ['userId must be a string'];
+        },
+      });
+
+      validated.info('valid', { userId: 'u1' });
+      validated.info('secret', { password: 'hunter2' });
+      validated.child({ component: 'auth' }).info('malformed', { userId: 42 });
+      validated.info('no context');
+
+      const logs = memoryTransport.getLogs();
+      expect(logs.map(log => log.message)).toEqual(['valid', 'malformed', 'no context']);
+      expect(logs[0]?.meta?.contextErrors).toBeUndefined();
+      expect(logs[1]?.meta?.contextErrors).toEqual(['userId must be a string']);
+    });
   });
 
   describe('Silent mode', () => {
@@ -322,6 +594,22 @@ describe('Logger', () => {
       expect(consoleSpy).toHaveBeenCalledTimes(1);
       consoleSpy.mockRestore();
     });
+
+    it('should use a custom formatter on console transport', () => {
+      const consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+      const consoleLogger = new Logger({
+        level: LogLevel.INFO,
+        transports: [
+          new ConsoleTransport({ formatter: { format: entry => `custom:${entry.message}` } }),
+        ],
+      });
+
+      consoleLogger.info('formatted');
+
+      expect(consoleSpy).toHaveBeenCalledWith('custom:formatted');
+      consoleSpy.mockRestore();
+    });
   });
 
   describe('Cleanup', () => {
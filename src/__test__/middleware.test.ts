@@ -0,0 +1,179 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Logger } from '../loggers';
+import { dedupe, rateLimit, sample, sampleBy } from '../middleware';
+import { MemoryTransport } from '../transports';
+import { LogLevel } from '../types/enums/log-level.enum';
+
+describe('Sampling and rate limiting middleware', () => {
+  let logger: Logger;
+  let memoryTransport: MemoryTransport;
+
+  beforeEach(() => {
+    memoryTransport = new MemoryTransport();
+    logger = new Logger({ level: LogLevel.TRACE, transports: [memoryTransport] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  describe('sample', () => {
+    it('should keep entries according to the per-level rate', () => {
+      const random = vi.spyOn(Math, 'random');
+      logger.use(sample({ [LogLevel.DEBUG]: 0.5 }));
+
+      random.mockReturnValue(0.7);
+      logger.debug('dropped');
+      random.mockReturnValue(0.2);
+      logger.debug('kept');
+      random.mockReturnValue(0.99);
+      logger.info('unsampled level');
+
+      expect(memoryTransport.getLogs().map(log => log.message)).toEqual([
+        'kept',
+        'unsampled level',
+      ]);
+    });
+  });
+
+  describe('sampleBy', () => {
+    it('should keep or drop every entry sharing a meta value', () => {
+      logger.use(sampleBy('requestId', 0.5));
+
+      const kept = new Set<string>();
+      for (let i = 0; i < 200; i++) {
+        const child = logger.child({ requestId: `req-${i}` });
+        child.info('first');
+        child.info('second');
+      }
+      for (const log of memoryTransport.getLogs()) kept.add(log.meta?.requestId as string);
+
+      expect(memoryTransport.getLogs()).toHaveLength(kept.size * 2);
+      expect(kept.size).toBeGreaterThan(60);
+      expect(kept.size).toBeLessThan(140);
+    });
+
+    it('should keep entries without the field', () => {
+      logger.use(sampleBy('requestId', 0));
+      logger.info('no request');
+
+      expect(memoryTransport.getLogs()).toHaveLength(1);
+    });
+  });
+
+  describe('dedupe', () => {
+    it('should emit the first entry and a repetition summary', () => {
+      vi.useFakeTimers();
+      logger.use(dedupe({ window: 10000 }));
+      const error = new Error('ECONNREFUSED');
+
+      for (let i = 0; i < 4214; i++) logger.error('Connection refused', error);
+      logger.error('Connection refused', new TypeError('other error'));
+      expect(memoryTransport.getLogs()).toHaveLength(2);
+
+      vi.advanceTimersByTime(10000);
+      const logs = memoryTransport.getLogs();
+      expect(logs).toHaveLength(3);
+      expect(logs[2]?.level).toBe(LogLevel.ERROR);
+      expect(logs[2]?.message).toBe('Connection refused (repeated 4,213 times in 10s)');
+      expect(logs[2]?.error).toBe(error);
+      expect(logs[2]?.context).toMatchObject({ repeated: 4213 });
+      expect(logs[2]?.context?.firstTimestamp).toEqual(expect.any(String));
+      expect(logs[2]?.context?.lastTimestamp).toEqual(expect.any(String));
+    });
+
+    it('should not emit a summary when nothing was repeated', () => {
+      vi.useFakeTimers();
+      logger.use(dedupe({ window: 1000 }));
+
+      logger.warn('Once');
+      vi.advanceTimersByTime(1000);
+      logger.warn('Once');
+
+      expect(memoryTransport.getLogs().map(log => log.message)).toEqual(['Once', 'Once']);
+    });
+
+    it('should emit pending summaries when the logger closes', async () => {
+      vi.useFakeTimers();
+      logger.use(dedupe({ window: 1000 }));
+      const log = vi.spyOn(memoryTransport, 'log');
+
+      for (let i = 0; i < 3; i++) logger.warn('Disk almost full');
+      await logger.close();
+      expect(log.mock.calls.map(([entry]) => entry.message)).toEqual([
+        'Disk almost full',
+        'Disk almost full (repeated 2 times in 1s)',
+      ]);
+      expect(vi.getTimerCount()).toBe(0);
+    });
+  });
+
+  describe('rateLimit', () => {
+    it('should limit each message template and summarize suppressed entries', () => {
+      vi.useFakeTimers();
+      logger.use(rateLimit({ limit: 2, interval: 1000 }));
+
+      for (let i = 0; i < 5; i++) logger.info('hot loop');
+      logger.info('other message');
+      expect(memoryTransport.getLogs().map(log => log.message)).toEqual([
+        'hot loop',
+        'hot loop',
+        'other message',
+      ]);
+
+      vi.advanceTimersByTime(1000);
+      const summary = memoryTransport.getLogs()[3];
+      expect(summary?.level).toBe(LogLevel.WARN);
+      expect(summary?.message).toBe('Suppressed 3 messages: hot loop');
+      expect(summary?.context).toMatchObject({ suppressed: 3, template: 'hot loop' });
+
+      logger.info('hot loop');
+      expect(memoryTransport.getLogs()).toHaveLength(5);
+    });
+
+    it('should emit pending summaries when the logger closes', async () => {
+      vi.useFakeTimers();
+      logger.use(rateLimit({ limit: 1, interval: 1000 }));
+      const log = vi.spyOn(memoryTransport, 'log');
+
+      for (let i = 0; i < 3; i++) logger.info('hot loop');
+      await logger.close();
+      expect(log.mock.calls.map(([entry]) => entry.message)).toEqual([
+        'hot loop',
+        'Suppressed 2 messages: hot loop',
+      ]);
+
+      // Nothing is written to the closed transport once the interval elapses
+      vi.advanceTimersByTime(2000);
+      expect(log).toHaveBeenCalledTimes(2);
+    });
+
+    it('should only limit the configured levels', () => {
+      logger.use(rateLimit({ limit: 1, levels: [LogLevel.DEBUG] }));
+
+      logger.debug('noisy');
+      logger.debug('noisy');
+      logger.error('failure');
+      logger.error('failure');
+
+      expect(memoryTransport.getLogs()).toHaveLength(3);
+    });
+
+    it('should bound the number of tracked message templates', () => {
+      vi.useFakeTimers();
+      logger.use(rateLimit({ limit: 1, interval: 1000, maxKeys: 100 }));
+
+      for (let i = 0; i < 500; i++) logger.info(`message ${i}`);
+      // Evicted templates start with a full bucket, recent ones are still limited
+      logger.info('message 0');
+      logger.info('message 499');
+      expect(memoryTransport.getLogs()).toHaveLength(501);
+
+      // The summary of 'message 499' is emitted, then the sweep forgets every idle bucket
+      vi.advanceTimersByTime(2000);
+      expect(memoryTransport.getLogs()[501]?.message).toBe('Suppressed 1 messages: message 499');
+      expect(vi.getTimerCount()).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { loadConfig } from '../config';
+import { buildOptions, parseConfig } from '../config/parse-config';
+import { LoggerFactory } from '../factory';
+import { matchNamespace, namespaceAncestors, parseNamespaceRules } from '../namespaces';
+import { MemoryTransport } from '../transports';
+import { LogLevel } from '../types/enums/log-level.enum';
+
+describe('Logger namespaces', () => {
+  it('should split names on dots and colons', () => {
+    expect(namespaceAncestors('api.db.pool')).toEqual(['api', 'api.db', 'api.db.pool']);
+    expect(namespaceAncestors('app:http.v1')).toEqual(['app', 'app:http', 'app:http.v1']);
+    expect(namespaceAncestors('root')).toEqual(['root']);
+  });
+
+  it('should parse and match DEBUG style rules', () => {
+    expect(parseNamespaceRules('api.*=warn, -api.db.*  app:*')).toEqual([
+      { pattern: 'api.*', exclude: false, level: LogLevel.WARN },
+      { pattern: 'api.db.*', exclude: true, level: LogLevel.DEBUG },
+      { pattern: 'app:*', exclude: false, level: LogLevel.DEBUG },
+    ]);
+    expect(() => parseNamespaceRules('api.*=loud')).toThrow(
+      'Invalid namespace rule "api.*=loud": unknown level "loud"'
+    );
+
+    expect(matchNamespace('api.db.pool', 'api.*')).toBe(true);
+    expect(matchNamespace('api:db', 'api.*')).toBe(true);
+    expect(matchNamespace('api', 'api.*')).toBe(false);
+    expect(matchNamespace('apix', 'api')).toBe(false);
+    expect(matchNamespace('a+b.c', 'a+b.*')).toBe(true);
+  });
+
+  it('should inherit settings from the nearest configured ancestor', () => {
+    const apiTransport = new MemoryTransport();
+    const dbTransport = new MemoryTransport();
+    const factory = new LoggerFactory({
+      defaultConfig: { level: LogLevel.ERROR },
+      loggers: {
+        api: {
+          level: LogLevel.INFO,
+          transports: [apiTransport],
+          middleware: [
+            (entry, next) => {
+              entry.meta = { ...entry.meta, tagged: true };
+              next();
+            },
+          ],
+        },
+        'api.db': { level: LogLevel.DEBUG, transports: [dbTransport] },
+      },
+    });
+
+    const pool = factory.create('api.db.pool');
+    const http = factory.create('api:http');
+    const other = factory.create('worker');
+
+    expect(pool.getLevel()).toBe(LogLevel.DEBUG);
+    expect(http.getLevel()).toBe(LogLevel.INFO);
+    expect(other.getLevel()).toBe(LogLevel.ERROR);
+
+    pool.debug('Pool');
+    http.info('Http');
+    expect(dbTransport.getLogs().map(log => log.meta)).toEqual([
+      { logger: 'api.db.pool', tagged: true },
+    ]);
+    expect(apiTransport.getLogs().map(log => log.meta)).toEqual([
+      { logger: 'api:http', tagged: true },
+    ]);
+  });
+
+  it('should enable and silence loggers with namespace rules', async () => {
+    const factory = new LoggerFactory({
+      defaultConfig: { transports: [new MemoryTransport()] },
+      loggers: { api: { level: LogLevel.WARN } },
+      namespaces: 'api.*=trace,-api.db.*',
+    });
+
+    const http = factory.create('api.http');
+    const pool = factory.create('api.db.pool');
+    const api = factory.create('api');
+
+    expect(http.getLevel()).toBe(LogLevel.TRACE);
+    expect(pool.isSilent()).toBe(true);
+    expect(api.getLevel()).toBe(LogLevel.WARN);
+
+    await factory.configure(loadConfig({ env: { GLYPHLOG_NAMESPACES: 'api.db.*=info' } }));
+    expect(pool.isSilent()).toBe(false);
+    expect(pool.getLevel()).toBe(LogLevel.INFO);
+    expect(http.getLevel()).toBe(LogLevel.INFO);
+  });
+
+  it('should read rules and per-logger middleware from configurations', () => {
+    const issues: string[] = [];
+    const options = buildOptions(
+      parseConfig(
+        {
+          namespaces: ['api.*=debug', '-api.db.*'],
+          loggers: { api: { middleware: [{ type: 'timestamp' }] } },
+        },
+        issues
+      )
+    );
+
+    expect(issues).toEqual([]);
+    expect(options.namespaces).toEqual(['api.*=debug', '-api.db.*']);
+    expect(options.loggers?.api?.middleware).toHaveLength(1);
+
+    expect(() => loadConfig({ env: { GLYPHLOG_NAMESPACES: '-api.*=debug' } })).toThrow(
+      'GLYPHLOG_NAMESPACES: Invalid namespace rule "-api.*=debug": excluding rules take no level'
+    );
+  });
+});
@@ -0,0 +1,176 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { FileTransport, MemoryTransport } from '../transports';
+import { LogLevel } from '../types/enums/log-level.enum';
+import { LogEntry } from '../types/log-entry.interface';
+import { queryLogFiles } from '../utils';
+
+const entry = (overrides: Partial<LogEntry>): LogEntry => ({
+  level: LogLevel.INFO,
+  message: 'message',
+  timestamp: new Date('2026-01-01T00:00:00.000Z'),
+  ...overrides,
+});
+
+const collect = async (source: AsyncIterable<LogEntry>): Promise<LogEntry[]> => {
+  const results: LogEntry[] = [];
+  for await (const item of source) results.push(item);
+  return results;
+};
+
+describe('MemoryTransport.query', () => {
+  let transport: MemoryTransport;
+
+  beforeEach(() => {
+    transport = new MemoryTransport();
+    transport.log(entry({ level: LogLevel.DEBUG, message: 'cache miss', context: { key: 'a' } }));
+    transport.log(
+      entry({
+        level: LogLevel.ERROR,
+        message: 'db timeout',
+        timestamp: new Date('2026-01-01T00:01:00.000Z'),
+        context: { db: { host: 'primary', port: 5432 } },
+      })
+    );
+    transport.log(
+      entry({
+        level: LogLevel.WARN,
+        message: 'db slow',
+        timestamp: new Date('2026-01-01T00:02:00.000Z'),
+        context: { db: { host: 'replica', port: 5432 } },
+      })
+    );
+  });
+
+  it('should filter by a single level or a list of levels', () => {
+    expect(transport.query({ level: LogLevel.ERROR })).toHaveLength(1);
+    expect(transport.query({ level: [LogLevel.WARN, LogLevel.ERROR] })).toHaveLength(2);
+  });
+
+  it('should filter by time range inclusively', () => {
+    const results = transport.query({
+      startTime: new Date('2026-01-01T00:01:00.000Z'),
+      endTime: new Date('2026-01-01T00:02:00.000Z'),
+    });
+    expect(results.map(r => r.message)).toEqual(['db timeout', 'db slow']);
+  });
+
+  it('should match messages by substring or RegExp', () => {
+    expect(transport.query({ message: 'db' })).toHaveLength(2);
+    expect(transport.query({ message: /^cache/ })).toHaveLength(1);
+  });
+
+  it('should match nested context partially', () => {
+    const results = transport.query({ context: { db: { host: 'replica' } } });
+    expect(results).toHaveLength(1);
+    expect(results[0]?.message).toBe('db slow');
+  });
+
+  it('should apply offset and limit after filtering', () => {
+    expect(transport.query({ offset: 1, limit: 1 }).map(r => r.message)).toEqual(['db timeout']);
+    expect(transport.query({ limit: 0 })).toHaveLength(0);
+  });
+});
+
+describe('FileTransport.query', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'glyphlog-query-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should read JSON logs across rotated files, oldest first', async () => {
+    const filename = path.join(dir, 'app.log');
+    const transport = new FileTransport({ filename, json: true, maxSize: 200, maxFiles: 5 });
+
+    for (let i = 0; i < 6; i++) {
+      transport.log(entry({ message: `json ${i}`, context: { i } }));
+    }
+    await transport.flush();
+
+    const files = await fs.readdir(dir);
+    expect(files.length).toBeGreaterThan(1);
+
+    const results = await collect(transport.query());
+    expect(results.map(r => r.message)).toEqual([
+      'json 0',
+      'json 1',
+      'json 2',
+      'json 3',
+      'json 4',
+      'json 5',
+    ]);
+    expect(results[0]?.timestamp).toBeInstanceOf(Date);
+
+    const filtered = await collect(transport.query({ context: { i: 4 } }));
+    expect(filtered).toHaveLength(1);
+  });
+
+  it('should parse SimpleFormatter output including context and stacks', async () => {
+    const filename = path.join(dir, 'simple.log');
+    const transport = new FileTransport({ filename });
+    const error = new TypeError('bad input');
+
+    transport.log(entry({ message: 'with context', context: { user: { id: 7 } } }));
+    transport.log(entry({ level: LogLevel.ERROR, message: 'failed', error }));
+    transport.log(entry({ message: 'after' }));
+    await transport.close();
+
+    const results = await collect(queryLogFiles(filename));
+    expect(results.map(r => r.message)).toEqual(['with context', 'failed', 'after']);
+    expect(results[0]?.context).toEqual({ user: { id: 7 } });
+    expect(results[1]?.error?.name).toBe('TypeError');
+    expect(results[1]?.error?.message).toBe('bad input');
+    expect(results[1]?.error?.stack).toBe(error.stack);
+
+    const errors = await collect(queryLogFiles(filename, { level: LogLevel.ERROR }));
+    expect(errors).toHaveLength(1);
+  });
+
+  it('should not mistake " ERROR: " in messages or context for an error', async () => {
+    const filename = path.join(dir, 'simple.log');
+    const transport = new FileTransport({ filename });
+    const error = new Error('real');
+
+    transport.log(entry({ message: 'x', context: { note: 'a ERROR: b' } }));
+    transport.log(entry({ message: 'parser ERROR: expected' }));
+    transport.log(entry({ message: 'y', context: { note: 'c ERROR: d' }, error }));
+    await transport.close();
+
+    const results = await collect(queryLogFiles(filename));
+    expect(results.map(r => r.message)).toEqual(['x', 'parser ERROR: expected', 'y']);
+    expect(results[0]?.context).toEqual({ note: 'a ERROR: b' });
+    expect(results[0]?.error).toBeUndefined();
+    expect(results[1]?.error).toBeUndefined();
+    expect(results[2]?.context).toEqual({ note: 'c ERROR: d' });
+    expect(results[2]?.error?.message).toBe('real');
+    expect(results[2]?.error?.stack).toBe(error.stack);
+  });
+
+  it('should keep every line of multi-line messages', async () => {
+    const filename = path.join(dir, 'simple.log');
+    const transport = new FileTransport({ filename });
+    const error = new RangeError('too far');
+
+    transport.log(entry({ message: 'first\nsecond\nthird', context: { n: 3 } }));
+    transport.log(entry({ level: LogLevel.ERROR, message: 'multi\nline', error }));
+    await transport.close();
+
+    const results = await collect(queryLogFiles(filename));
+    expect(results.map(r => r.message)).toEqual(['first\nsecond\nthird', 'multi\nline']);
+    expect(results[0]?.context).toEqual({ n: 3 });
+    expect(results[1]?.error?.name).toBe('RangeError');
+    expect(results[1]?.error?.stack).toBe(error.stack);
+  });
+
+  it('should yield nothing when the file does not exist', async () => {
+    const results = await collect(queryLogFiles(path.join(dir, 'missing.log')));
+    expect(results).toEqual([]);
+  });
+});
@@ -0,0 +1,124 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getActiveContext } from '../context';
+import { koaRequestLogger, requestLogger } from '../integrations';
+import { Logger } from '../loggers';
+import { MemoryTransport } from '../transports';
+import { LogLevel } from '../types/enums/log-level.enum';
+import { TypedLogger } from '../types/logger/typed-logger.interface';
+
+type Handler = (req: http.IncomingMessage, res: http.ServerResponse) => void | Promise<void>;
+
+describe('Request logging middleware', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let handler: Handler;
+  let logger: Logger;
+  let memoryTransport: MemoryTransport;
+
+  beforeEach(async () => {
+    memoryTransport = new MemoryTransport();
+    logger = new Logger({ level: LogLevel.TRACE, transports: [memoryTransport] });
+    server = http.createServer((req, res) => void handler(req, res));
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  const completed = () =>
+    vi.waitFor(() => {
+      const entry = memoryTransport.getLogs().find(log => log.message === 'Request completed');
+      expect(entry).toBeDefined();
+      return entry!;
+    });
+
+  it('should log start and completion with a generated request ID', async () => {
+    const logRequest = requestLogger(logger);
+    handler = (req, res) => {
+      logRequest(req, res);
+      (req as unknown as { log: TypedLogger }).log.info('Handling');
+      res.write('hello ');
+      res.end('world');
+    };
+
+    const response = await fetch(`${baseUrl}/users?id=1`);
+    const requestId = response.headers.get('x-request-id');
+    const entry = await completed();
+
+    expect(requestId).toBeTruthy();
+    expect(memoryTransport.getLogs().map(log => log.message)).toEqual([
+      'Request started',
+      'Handling',
+      'Request completed',
+    ]);
+    expect(memoryTransport.getLogs().every(log => log.meta?.requestId === requestId)).toBe(true);
+    expect(entry.level).toBe(LogLevel.INFO);
+    expect(entry.context).toMatchObject({
+      method: 'GET',
+      url: '/users?id=1',
+      statusCode: 200,
+      responseSize: 11,
+    });
+    expect(typeof entry.context?.duration).toBe('number');
+  });
+
+  it('should reuse x-request-id and choose the level from the status code', async () => {
+    const logRequest = requestLogger(logger, { logStart: false });
+    handler = (req, res) => {
+      logRequest(req, res);
+      res.statusCode = 503;
+      res.end();
+    };
+
+    await fetch(baseUrl, {
+      headers: {
+        'x-request-id': 'req-42',
+        traceparent: '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01',
+      },
+    });
+    const entry = await completed();
+
+    expect(memoryTransport.getLogs()).toHaveLength(1);
+    expect(entry.level).toBe(LogLevel.ERROR);
+    expect(entry.meta?.requestId).toBe('req-42');
+    expect(entry.traceId).toBe('4bf92f3577b34da6a3ce929d0e0e4736');
+  });
+
+  it('should run the next middleware with the request context', async () => {
+    const middleware = requestLogger(logger);
+    let activeRequestId: unknown;
+    handler = (req, res) =>
+      middleware(req, res, () => {
+        activeRequestId = getActiveContext()?.requestId;
+        res.end();
+      });
+
+    await fetch(baseUrl, { headers: { 'x-request-id': 'req-ctx' } });
+    await completed();
+
+    expect(activeRequestId).toBe('req-ctx');
+  });
+
+  it('should support Koa style contexts', async () => {
+    const middleware = koaRequestLogger(logger);
+    handler = async (req, res) => {
+      const ctx = { req, res, state: {} as Record<string, unknown> };
+      await middleware(ctx, async () => {
+        (ctx.state.log as TypedLogger).info('From koa');
+        res.statusCode = 404;
+        res.end('missing');
+      });
+    };
+
+    await fetch(baseUrl);
+    const entry = await completed();
+
+    expect(memoryTransport.getLogs().some(log => log.message === 'From koa')).toBe(true);
+    expect(entry.level).toBe(LogLevel.WARN);
+    expect(entry.context?.responseSize).toBe(7);
+  });
+});
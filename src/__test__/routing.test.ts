@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import { buildOptions, parseConfig } from '../config/parse-config';
+import { LoggerFactory } from '../factory';
+import { Logger } from '../loggers';
+import { MemoryTransport } from '../transports';
+import { LogLevel } from '../types/enums/log-level.enum';
+import { LogEntry } from '../types/log-entry.interface';
+import { LogTransport } from '../types/transports/log-transport.interface';
+import { matchesRoute } from '../utils';
+
+const entry = (meta: LogEntry['meta'], context?: LogEntry['context']): LogEntry => ({
+  level: LogLevel.INFO,
+  message: 'entry',
+  timestamp: new Date(),
+  meta,
+  ...(context && { context }),
+});
+
+describe('Transport routing', () => {
+  it('should match include and exclude conditions', () => {
+    const audit = { include: { 'meta.logger': 'audit.*' } };
+    expect(matchesRoute(entry({ logger: 'audit.login' }), audit)).toBe(true);
+    expect(matchesRoute(entry({ logger: 'auditor' }), audit)).toBe(false);
+    expect(matchesRoute(entry({}), audit)).toBe(false);
+
+    const route = {
+      include: [{ 'meta.logger': /^api/ }, { level: [LogLevel.ERROR, LogLevel.FATAL] }],
+      exclude: { 'context.healthcheck': true },
+    };
+    expect(matchesRoute(entry({ logger: 'api.http' }), route)).toBe(true);
+    expect(matchesRoute(entry({ logger: 'api.http' }, { healthcheck: true }), route)).toBe(false);
+    expect(matchesRoute(entry({ logger: 'db' }), route)).toBe(false);
+    expect(matchesRoute({ ...entry({ logger: 'db' }), level: LogLevel.ERROR }, route)).toBe(true);
+  });
+
+  it('should apply a route assigned after construction', () => {
+    const transport = new MemoryTransport({ route: { include: { 'meta.logger': 'api.*' } } });
+    const logger = new Logger({ transports: [transport], defaultMeta: { logger: 'db.pool' } });
+
+    logger.info('skipped');
+    const routed: LogTransport = transport;
+    routed.route = { include: { 'meta.logger': 'db.*' } };
+    logger.info('routed');
+
+    expect(transport.getLogs().map(log => log.message)).toEqual(['routed']);
+  });
+
+  it('should fan out entries to transports by filter, route and middleware', async () => {
+    const audit = new MemoryTransport({ route: { include: { 'meta.logger': 'audit.*' } } });
+    const http = new MemoryTransport({
+      route: { exclude: { 'context.healthcheck': true } },
+      middleware: [
+        async (logged, next) => {
+          await Promise.resolve();
+          logged.meta = { ...logged.meta, shipped: true };
+          next();
+        },
+      ],
+    });
+    const errors = new MemoryTransport({ filter: logged => logged.error !== undefined });
+    const factory = new LoggerFactory({ defaultConfig: { transports: [audit, http, errors] } });
+
+    factory.create('audit.login').info('Signed in');
+    const api = factory.create('api');
+    api.info('Health', { healthcheck: true });
+    api.error('Failed', new Error('boom'));
+    await api.flush();
+
+    expect(audit.getLogs().map(log => log.message)).toEqual(['Signed in']);
+    expect(http.getLogs().map(log => log.message)).toEqual(['Signed in', 'Failed']);
+    expect(http.getLogs().every(log => log.meta?.shipped)).toBe(true);
+    expect(errors.getLogs().map(log => log.message)).toEqual(['Failed']);
+    // Transport middleware works on copies
+    expect(audit.getLogs()[0]?.meta?.shipped).toBeUndefined();
+  });
+
+  it('should report failing filters without affecting other transports', () => {
+    const failing = new MemoryTransport({
+      filter: () => {
+        throw new Error('bad filter');
+      },
+    });
+    const healthy = new MemoryTransport();
+    const logger = new Logger({ transports: [failing, healthy] });
+
+    logger.info('Still logged');
+    expect(healthy.getLogs()).toHaveLength(1);
+  });
+
+  it('should read routes and middleware of transports from configurations', () => {
+    const issues: string[] = [];
+    const options = buildOptions(
+      parseConfig(
+        {
+          transports: [
+            {
+              type: 'memory',
+              route: { include: { 'meta.logger': 'audit.*' }, exclude: [{ level: [5, 6] }] },
+              middleware: [{ type: 'timestamp', name: 'ts' }],
+            },
+            { type: 'memory', route: { include: { 'meta.logger': { $regex: 'x' } } } },
+          ],
+        },
+        issues
+      )
+    );
+
+    expect(issues).toEqual([
+      'transports[1].route.include.meta.logger: expected a string, number, boolean or null, or an array of them, got {"$regex":"x"}',
+    ]);
+    const [transport] = options.defaultConfig?.transports ?? [];
+    expect(transport?.route).toEqual({
+      include: { 'meta.logger': 'audit.*' },
+      exclude: [{ level: [5, 6] }],
+    });
+    expect(transport?.middleware).toMatchObject([{ name: 'ts' }]);
+  });
+});
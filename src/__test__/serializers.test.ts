@@ -0,0 +1,237 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { ConsoleFormatter, JsonFormatter, SimpleFormatter } from '../formatters';
+import {
+  formatErrorText,
+  registerErrorSerializer,
+  safeStringify,
+  serializeError,
+  toSerializable,
+  unregisterErrorSerializer,
+} from '../serializers';
+import { LogLevel } from '../types/enums/log-level.enum';
+import { LogEntry } from '../types/log-entry.interface';
+
+class HttpError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number,
+    public request: { url: string; headers: Record<string, string> }
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+class NotFoundError extends HttpError {}
+
+describe('serializeError', () => {
+  afterEach(() => {
+    unregisterErrorSerializer(HttpError);
+  });
+
+  it('should include own properties and walk the cause chain', () => {
+    const root = Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' });
+    const error = new Error('Query failed', { cause: root });
+
+    const serialized = serializeError(error);
+
+    expect(serialized).toMatchObject({
+      name: 'Error',
+      message: 'Query failed',
+      cause: { name: 'Error', message: 'connect ECONNREFUSED', code: 'ECONNREFUSED' },
+    });
+    expect(serialized.stack).toBe(error.stack);
+    expect(JSON.parse(JSON.stringify(serialized))).toEqual(serialized);
+  });
+
+  it('should serialize AggregateError errors', () => {
+    const error = new AggregateError([new TypeError('a'), 'b'], 'Several failures');
+
+    expect(serializeError(error).errors).toEqual([
+      expect.objectContaining({ name: 'TypeError', message: 'a' }),
+      'b',
+    ]);
+  });
+
+  it('should replace circular references', () => {
+    const first = new Error('first');
+    const second = new Error('second', { cause: first });
+    Object.assign(first, { cause: second, self: first, details: { owner: first } });
+
+    const serialized = serializeError(first);
+
+    expect(serialized.self).toBe('[Circular]');
+    expect(serialized.details).toEqual({ owner: '[Circular]' });
+    expect(serialized.cause).toMatchObject({ message: 'second', cause: '[Circular]' });
+  });
+
+  it('should use the serializer registered for the closest class', () => {
+    registerErrorSerializer(HttpError, (error, serialized) => ({
+      ...serialized,
+      request: undefined,
+      url: error.request.url,
+    }));
+
+    const serialized = serializeError(
+      new NotFoundError('Not found', 404, { url: '/users/1', headers: { cookie: 'secret' } })
+    );
+
+    expect(serialized).toMatchObject({ statusCode: 404, url: '/users/1' });
+    expect(serialized.request).toBeUndefined();
+  });
+
+  it('should render causes and properties as text', () => {
+    const error = new Error('outer', { cause: new Error('inner') });
+    Object.assign(error, { code: 'E_OUTER' });
+    error.stack = 'Error: outer\n    at main (app.js:1:1)';
+    (error.cause as Error).stack = 'Error: inner\n    at db (db.js:2:2)';
+
+    expect(formatErrorText(serializeError(error))).toBe(
+      [
+        'Error: outer',
+        '    at main (app.js:1:1)',
+        '    {"code":"E_OUTER"}',
+        'Caused by: Error: inner',
+        '    at db (db.js:2:2)',
+      ].join('\n')
+    );
+  });
+});
+
+describe('toSerializable', () => {
+  it('should convert values JSON cannot represent', () => {
+    const context = {
+      id: 12345678901234567890n,
+      tags: new Set(['a', 'b']),
+      counts: new Map<unknown, unknown>([
+        ['x', 1],
+        [2, 2n],
+      ]),
+      payload: Buffer.from('hello'),
+      kind: Symbol('user'),
+      callback: function onDone() {},
+      arrow: () => {},
+      at: new Date('2026-01-01T00:00:00.000Z'),
+      money: { toJSON: () => '12.50 EUR' },
+    };
+
+    expect(toSerializable(context)).toEqual({
+      id: '12345678901234567890',
+      tags: ['a', 'b'],
+      counts: { x: 1, 2: '2' },
+      payload: '[Buffer: 5 bytes]',
+      kind: 'Symbol(user)',
+      callback: '[Function: onDone]',
+      arrow: '[Function: arrow]',
+      at: '2026-01-01T00:00:00.000Z',
+      money: '12.50 EUR',
+    });
+  });
+
+  it('should replace circular references but keep repeated ones', () => {
+    const shared = { value: 1 };
+    const node: Record<string, unknown> = { shared, again: shared };
+    node.self = node;
+    node.list = [node, new Map([['parent', node]])];
+
+    expect(toSerializable(node)).toEqual({
+      shared: { value: 1 },
+      again: { value: 1 },
+      self: '[Circular]',
+      list: ['[Circular]', { parent: '[Circular]' }],
+    });
+  });
+
+  it('should apply depth, array and string limits', () => {
+    const value = {
+      nested: { a: { b: { c: {} } }, list: [[1]] },
+      items: [1, 2, 3, 4, 5],
+      text: 'abcdefghij',
+    };
+
+    expect(toSerializable(value, { maxDepth: 2, maxArrayLength: 3, maxStringLength: 4 })).toEqual({
+      nested: { a: '[Object]', list: '[Array]' },
+      items: [1, 2, 3, '... 2 more items'],
+      text: 'abcd... [6 more characters]',
+    });
+  });
+
+  it('should survive throwing getters and toJSON methods', () => {
+    const value = {
+      get broken() {
+        throw new Error('nope');
+      },
+    };
+
+    expect(safeStringify({ value, other: { toJSON: () => value } })).toBe(
+      '{"value":"[Unserializable: nope]","other":"[Unserializable: nope]"}'
+    );
+  });
+});
+
+describe('Formatters with serialized errors', () => {
+  const error = Object.assign(new Error('outer', { cause: new TypeError('inner') }), {
+    statusCode: 502,
+  });
+  const entry: LogEntry = {
+    level: LogLevel.ERROR,
+    message: 'Request failed',
+    timestamp: new Date('2026-01-01T00:00:00.000Z'),
+    error,
+  };
+
+  it('should include causes and properties in JSON output', () => {
+    const output = JSON.parse(new JsonFormatter().format(entry)) as { error: unknown };
+
+    expect(output.error).toMatchObject({
+      statusCode: 502,
+      cause: { name: 'TypeError', message: 'inner' },
+    });
+  });
+
+  it('should include causes in text output', () => {
+    expect(new SimpleFormatter().format(entry)).toContain('Caused by: TypeError: inner');
+    expect(new ConsoleFormatter({ colors: false, timestamp: false }).format(entry)).toContain(
+      'Error: outer {"statusCode":502} <- caused by TypeError: inner'
+    );
+  });
+
+  it('should only write a stack when the error has one', () => {
+    const stackless = Object.assign(new Error('no stack'), { stack: undefined });
+
+    expect(new SimpleFormatter().format({ ...entry, error: stackless })).toBe(
+      '2026-01-01T00:00:00.000Z [ERROR] Request failed ERROR: no stack'
+    );
+  });
+});
+
+describe('Formatters with unsafe values', () => {
+  const circular: Record<string, unknown> = { id: 1n };
+  circular.self = circular;
+  const entry: LogEntry = {
+    level: LogLevel.INFO,
+    message: 'Unsafe',
+    timestamp: new Date('2026-01-01T00:00:00.000Z'),
+    context: { circular, items: [1, 2, 3] },
+    meta: { requestId: 10n },
+  };
+
+  it('should not throw in the JSON formatter', () => {
+    const output = JSON.parse(new JsonFormatter({ maxArrayLength: 2 }).format(entry)) as LogEntry;
+
+    expect(output.context).toEqual({
+      circular: { id: '1', self: '[Circular]' },
+      items: [1, 2, '... 1 more item'],
+    });
+    expect(output.meta).toEqual({ requestId: '10' });
+  });
+
+  it('should not throw in the text formatters', () => {
+    expect(new SimpleFormatter().format(entry)).toContain(
+      '{"circular":{"id":"1","self":"[Circular]"}'
+    );
+    expect(new ConsoleFormatter({ colors: false, timestamp: false }).format(entry)).toBe(
+      '[INFO ] Unsafe {circular={"id":"1","self":"[Circular]"} items=[1,2,3]} [requestId=10]'
+    );
+  });
+});
@@ -0,0 +1,132 @@
+import { constants } from 'os';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { LoggerFactory } from '../factory';
+import { Logger } from '../loggers';
+import { handleExit } from '../shutdown';
+import { MemoryTransport } from '../transports';
+import { LogLevel } from '../types/enums/log-level.enum';
+import { LogEntry } from '../types/log-entry.interface';
+import { LogTransport } from '../types/transports/log-transport.interface';
+
+/**
+ * A transport taking `delay` milliseconds to write each entry.
+ */
+class SlowTransport implements LogTransport {
+  name = 'slow';
+  level = LogLevel.TRACE;
+  written: LogEntry[] = [];
+  closed = false;
+
+  constructor(private delay: number) {}
+
+  async log(entry: LogEntry): Promise<void> {
+    await new Promise(resolve => setTimeout(resolve, this.delay));
+    this.written.push(entry);
+  }
+
+  async close(): Promise<void> {
+    await new Promise(resolve => setTimeout(resolve, this.delay));
+    this.closed = true;
+  }
+}
+
+describe('Shutdown', () => {
+  let exit: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    exit = vi.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+  });
+
+  afterEach(() => {
+    exit.mockRestore();
+  });
+
+  it('should write the fatal entry before exiting', async () => {
+    const transport = new SlowTransport(20);
+    const logger = new Logger({ transports: [transport], exitOnError: true });
+
+    logger.fatal('Crashed', new Error('boom'));
+    expect(exit).not.toHaveBeenCalled();
+
+    await vi.waitFor(() => expect(exit).toHaveBeenCalledWith(1));
+    expect(transport.written.map(entry => entry.message)).toEqual(['Crashed']);
+  });
+
+  it('should exit after exitTimeout when a transport hangs', async () => {
+    const transport = new SlowTransport(10000);
+    const logger = new Logger({ transports: [transport], exitOnError: true, exitTimeout: 20 });
+
+    logger.fatal('Crashed');
+
+    await vi.waitFor(() => expect(exit).toHaveBeenCalledWith(1));
+    expect(transport.written).toHaveLength(0);
+  });
+
+  it('should flush entries being written', async () => {
+    const transport = new SlowTransport(20);
+    const logger = new Logger({ transports: [transport] });
+
+    logger.info('first');
+    logger.info('second');
+    await logger.flush();
+
+    expect(transport.written).toHaveLength(2);
+  });
+
+  describe('handleExit', () => {
+    let factory: LoggerFactory;
+    let transport: SlowTransport;
+    let memoryTransport: MemoryTransport;
+    let logger: Logger;
+    let unregister: () => void;
+
+    beforeEach(() => {
+      factory = new LoggerFactory();
+      transport = new SlowTransport(20);
+      factory.create('api', { transports: [transport] });
+      memoryTransport = new MemoryTransport();
+      logger = new Logger({ transports: [memoryTransport] });
+    });
+
+    afterEach(() => {
+      unregister();
+    });
+
+    it('should log the signal and close the loggers before exiting', async () => {
+      unregister = handleExit({ logger, factory, signals: ['SIGUSR2'] });
+      factory.get('api').info('in flight');
+
+      process.emit('SIGUSR2', 'SIGUSR2');
+
+      await vi.waitFor(() => expect(exit).toHaveBeenCalledWith(128 + constants.signals.SIGUSR2));
+      expect(memoryTransport.getLogs()[0]?.message).toBe('Received SIGUSR2, shutting down');
+      expect(transport.written).toHaveLength(1);
+      expect(transport.closed).toBe(true);
+      expect(factory.getLoggerNames()).toEqual([]);
+    });
+
+    it('should exit after the timeout when loggers do not close', async () => {
+      transport = new SlowTransport(10000);
+      factory.create('stuck', { transports: [transport] });
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+      unregister = handleExit({ logger, factory, timeout: 20, signals: ['SIGUSR2'] });
+
+      process.emit('SIGUSR2', 'SIGUSR2');
+
+      await vi.waitFor(() => expect(exit).toHaveBeenCalled());
+      expect(transport.closed).toBe(false);
+      expect(consoleError).toHaveBeenCalledWith('Loggers did not close within 20ms, exiting');
+      consoleError.mockRestore();
+    });
+
+    it('should remove its handlers', () => {
+      const before = process.listenerCount('beforeExit');
+      unregister = handleExit({ logger, factory });
+
+      expect(process.listenerCount('beforeExit')).toBe(before + 1);
+      unregister();
+      expect(process.listenerCount('beforeExit')).toBe(before);
+      expect(process.listenerCount('SIGTERM')).toBe(0);
+    });
+  });
+});
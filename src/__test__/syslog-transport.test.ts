@@ -0,0 +1,167 @@
+import dgram from 'dgram';
+import net from 'net';
+import { AddressInfo } from 'net';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { SyslogFormatter } from '../formatters';
+import { SyslogTransport } from '../transports';
+import { LogLevel } from '../types/enums/log-level.enum';
+import { LogEntry } from '../types/log-entry.interface';
+
+const entry = (message: string, overrides: Partial<LogEntry> = {}): LogEntry => ({
+  level: LogLevel.INFO,
+  message,
+  timestamp: new Date('2026-10-19T08:30:15.123Z'),
+  ...overrides,
+});
+
+const formatterOptions = { hostname: 'web-1', appName: 'api', procId: 42 };
+
+describe('SyslogFormatter', () => {
+  it('should format RFC 5424 messages with metadata as structured data', () => {
+    const formatter = new SyslogFormatter({
+      ...formatterOptions,
+      facility: 'local0',
+      msgId: 'REQ',
+    });
+
+    expect(
+      formatter.format(
+        entry('Request failed', {
+          level: LogLevel.ERROR,
+          context: { status: 502 },
+          meta: { requestId: 'r-1', tags: ['a'], note: 'say "hi" [x]' },
+          traceId: 'abc',
+        })
+      )
+    ).toBe(
+      '<131>1 2026-10-19T08:30:15.123Z web-1 api 42 REQ ' +
+        '[meta@32473 requestId="r-1" tags="[\\"a\\"\\]" note="say \\"hi\\" [x\\]" traceId="abc"] ' +
+        'Request failed {"status":502}'
+    );
+    expect(formatter.format(entry('Plain', { level: LogLevel.TRACE }))).toBe(
+      '<135>1 2026-10-19T08:30:15.123Z web-1 api 42 REQ - Plain'
+    );
+  });
+
+  it('should format RFC 3164 messages and apply severity overrides', () => {
+    const timestamp = new Date(2026, 9, 5, 7, 3, 9);
+    const formatter = new SyslogFormatter({
+      ...formatterOptions,
+      format: 'rfc3164',
+      facility: 3,
+      severities: { WARN: 5 },
+    });
+
+    expect(formatter.format(entry('Disk almost full', { level: LogLevel.WARN, timestamp }))).toBe(
+      '<29>Oct  5 07:03:09 web-1 api[42]: Disk almost full'
+    );
+  });
+});
+
+describe('SyslogTransport', () => {
+  const cleanup: (() => Promise<void> | void)[] = [];
+
+  afterEach(async () => {
+    for (const step of cleanup.splice(0).reverse()) await step();
+    vi.restoreAllMocks();
+  });
+
+  const tcpServer = async (port = 0) => {
+    const received: string[] = [];
+    const sockets = new Set<net.Socket>();
+    const server = net.createServer(socket => {
+      sockets.add(socket);
+      socket.on('data', data => received.push(data.toString()));
+      socket.on('close', () => sockets.delete(socket));
+    });
+    await new Promise<void>(resolve => server.listen(port, '127.0.0.1', resolve));
+    const stop = async () => {
+      for (const socket of sockets) socket.destroy();
+      await new Promise(resolve => server.close(resolve));
+    };
+    return { port: (server.address() as AddressInfo).port, received, stop };
+  };
+
+  it('should send datagrams over UDP', async () => {
+    const server = dgram.createSocket('udp4');
+    const received: string[] = [];
+    server.on('message', message => received.push(message.toString()));
+    await new Promise<void>(resolve => server.bind(0, '127.0.0.1', resolve));
+    cleanup.push(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+    const transport = new SyslogTransport({
+      ...formatterOptions,
+      host: '127.0.0.1',
+      port: server.address().port,
+      maxMessageSize: 60,
+    });
+    transport.log(entry('Started'));
+    transport.log(entry('x'.repeat(100)));
+    await transport.close();
+
+    await vi.waitFor(() => expect(received).toHaveLength(2));
+    expect(received[0]).toBe('<14>1 2026-10-19T08:30:15.123Z web-1 api 42 - - Started');
+    expect(Buffer.byteLength(received[1] ?? '')).toBe(60);
+  });
+
+  it('should frame messages by octet counting over TCP', async () => {
+    const server = await tcpServer();
+    cleanup.push(server.stop);
+
+    const transport = new SyslogTransport({
+      ...formatterOptions,
+      protocol: 'tcp',
+      host: '127.0.0.1',
+      port: server.port,
+      messageFormatter: { format: e => e.message },
+    });
+    transport.log(entry('première'));
+    transport.log(entry('second\nline'));
+    await transport.close();
+
+    const first = '<14>1 2026-10-19T08:30:15.123Z web-1 api 42 - - première';
+    const second = '<14>1 2026-10-19T08:30:15.123Z web-1 api 42 - - second\nline';
+    await vi.waitFor(() =>
+      expect(server.received.join('')).toBe(
+        `${Buffer.byteLength(first)} ${first}${Buffer.byteLength(second)} ${second}`
+      )
+    );
+  });
+
+  it('should buffer messages while disconnected and reconnect', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const first = await tcpServer();
+    const { port } = first;
+    const transport = new SyslogTransport({
+      ...formatterOptions,
+      protocol: 'tcp',
+      host: '127.0.0.1',
+      port,
+      framing: 'newline',
+      formatter: { format: e => e.message },
+      reconnect: { initialDelay: 20, maxDelay: 50 },
+      maxBufferSize: 2,
+    });
+    cleanup.push(() => transport.close());
+
+    transport.log(entry('one'));
+    await vi.waitFor(() => expect(first.received.join('')).toBe('one\n'));
+    await first.stop();
+    await vi.waitFor(() => expect(transport.getStats().connected).toBe(false));
+
+    for (const message of ['two', 'three', 'four']) transport.log(entry(message));
+    expect(transport.getStats()).toMatchObject({ buffered: 2, dropped: 1 });
+    // Lets a few connection attempts fail
+    await new Promise(resolve => setTimeout(resolve, 100));
+
+    const second = await tcpServer(port);
+    cleanup.push(second.stop);
+    await vi.waitFor(() => expect(second.received.join('')).toBe('three\nfour\n'));
+    // Reported once for the outage, not on every attempt
+    expect(console.error).toHaveBeenCalledTimes(1);
+  });
+
+  it('should require the path of a stream socket with the unix protocol', () => {
+    expect(() => new SyslogTransport({ protocol: 'unix' })).toThrow(/requires a path/);
+  });
+});
@@ -0,0 +1,115 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { JsonFormatter } from '../formatters';
+import { Logger } from '../loggers';
+import { formatTraceparent, parseTraceparent } from '../tracing';
+import { MemoryTransport } from '../transports';
+import { LogLevel } from '../types/enums/log-level.enum';
+
+const TRACEPARENT = '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01';
+
+describe('Tracing', () => {
+  let logger: Logger;
+  let memoryTransport: MemoryTransport;
+
+  beforeEach(() => {
+    memoryTransport = new MemoryTransport();
+    logger = new Logger({ level: LogLevel.TRACE, transports: [memoryTransport] });
+  });
+
+  describe('traceparent', () => {
+    it('should parse and format W3C traceparent headers', () => {
+      const context = parseTraceparent(TRACEPARENT);
+
+      expect(context).toEqual({
+        traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+        spanId: '00f067aa0ba902b7',
+        traceFlags: 1,
+      });
+      expect(formatTraceparent(context!)).toBe(TRACEPARENT);
+    });
+
+    it('should reject invalid headers', () => {
+      expect(parseTraceparent(undefined)).toBeUndefined();
+      expect(parseTraceparent('garbage')).toBeUndefined();
+      expect(parseTraceparent(`00-${'0'.repeat(32)}-00f067aa0ba902b7-01`)).toBeUndefined();
+      expect(
+        parseTraceparent(`ff-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01`)
+      ).toBeUndefined();
+    });
+  });
+
+  it('should move trace identifiers from metadata to the entry', () => {
+    logger.runWithContext(parseTraceparent(TRACEPARENT)!, () => logger.info('Handled'));
+
+    const [entry] = memoryTransport.getLogs();
+    expect(entry?.traceId).toBe('4bf92f3577b34da6a3ce929d0e0e4736');
+    expect(entry?.spanId).toBe('00f067aa0ba902b7');
+    expect(entry?.traceFlags).toBe(1);
+    expect(entry?.meta).not.toHaveProperty('traceId');
+  });
+
+  it('should fall back to the trace context provider', () => {
+    const provided = new Logger({
+      transports: [memoryTransport],
+      traceContext: () => ({ traceId: 'a'.repeat(32), spanId: 'b'.repeat(16) }),
+    });
+
+    provided.child({ component: 'db' }).info('Query');
+
+    expect(memoryTransport.getLogs()[0]).toMatchObject({
+      traceId: 'a'.repeat(32),
+      spanId: 'b'.repeat(16),
+    });
+  });
+
+  it('should emit start and end entries for spans', () => {
+    const parent = parseTraceparent(TRACEPARENT)!;
+
+    logger.runWithContext(parent, () => {
+      const span = logger.startSpan('checkout', { cartId: 'c-1' });
+      span.run(() => logger.info('Charging card'));
+      span.end({ items: 3 });
+    });
+
+    const [start, inner, end] = memoryTransport.getLogs();
+    expect(start?.message).toBe('Span started: checkout');
+    expect(end?.message).toBe('Span completed: checkout');
+    for (const entry of [start, inner, end]) {
+      expect(entry?.traceId).toBe(parent.traceId);
+      expect(entry?.spanId).not.toBe(parent.spanId);
+      expect(entry?.meta?.parentSpanId).toBe(parent.spanId);
+    }
+    expect(end?.context).toMatchObject({ cartId: 'c-1', items: 3, span: { name: 'checkout' } });
+    expect(logger.getStats().activeProfiles).toHaveLength(0);
+  });
+
+  it('should start a new trace when none is active', () => {
+    const span = logger.startSpan('job');
+
+    expect(span.traceId).toMatch(/^[\da-f]{32}$/);
+    expect(span.parentSpanId).toBeUndefined();
+    expect(parseTraceparent(span.traceparent())?.spanId).toBe(span.spanId);
+  });
+
+  it('should output trace fields at the top level in JSON', () => {
+    const formatted = new JsonFormatter().format({
+      level: LogLevel.INFO,
+      message: 'Joined',
+      timestamp: new Date(0),
+      traceId: 'a'.repeat(32),
+      spanId: 'b'.repeat(16),
+      traceFlags: 1,
+      meta: { service: 'api' },
+    });
+
+    expect(Object.keys(JSON.parse(formatted))).toEqual([
+      'timestamp',
+      'level',
+      'message',
+      'traceId',
+      'spanId',
+      'traceFlags',
+      'meta',
+    ]);
+  });
+});
@@ -0,0 +1,121 @@
+import fs from 'fs/promises';
+import { createRequire } from 'module';
+import os from 'os';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { WorkerTransport } from '../transports';
+import { LogLevel } from '../types/enums/log-level.enum';
+import { LogEntry } from '../types/log-entry.interface';
+import { WorkerTransportConfig } from '../types/transports/worker-transport.config';
+import { decodeEntry, encodeEntry } from '../utils';
+
+const entry = (message: string, overrides: Partial<LogEntry> = {}): LogEntry => ({
+  level: LogLevel.INFO,
+  message,
+  timestamp: new Date('2026-01-01T00:00:00.000Z'),
+  ...overrides,
+});
+
+describe('WorkerTransport', () => {
+  let dir: string;
+  let filename: string;
+
+  // Workers do not inherit loader hooks: register tsx so that the worker can load the sources
+  const tsxApi = pathToFileURL(createRequire(import.meta.url).resolve('tsx/esm/api')).href;
+  const registerTsx = `data:text/javascript,import { register } from '${tsxApi}'; register();`;
+
+  const create = (config: Partial<WorkerTransportConfig> = {}) =>
+    new WorkerTransport({
+      targets: [{ target: 'file', options: { filename, json: true } }],
+      preload: [registerTsx],
+      ...config,
+    });
+
+  const readLines = async () =>
+    (await fs.readFile(filename, 'utf8'))
+      .trim()
+      .split('\n')
+      .map(line => JSON.parse(line) as Record<string, unknown>);
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'glyphlog-worker-'));
+    filename = path.join(dir, 'app.log');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should write entries from the worker and drain them on close', async () => {
+    const transport = create();
+    const error = new TypeError('bad input');
+
+    transport.log(entry('first', { context: { id: 1 } }));
+    transport.log(entry('second', { level: LogLevel.ERROR, error }));
+    await transport.close();
+
+    const lines = await readLines();
+    expect(lines.map(line => line.message)).toEqual(['first', 'second']);
+    expect(lines[0]?.timestamp).toBe('2026-01-01T00:00:00.000Z');
+    expect(lines[0]?.context).toEqual({ id: 1 });
+    expect(lines[1]?.error).toMatchObject({ name: 'TypeError', message: 'bad input' });
+  });
+
+  it('should flush the worker transports on demand', async () => {
+    const transport = create();
+
+    transport.log(entry('flushed'));
+    await transport.flush();
+
+    expect((await readLines())[0]?.message).toBe('flushed');
+    await transport.close();
+  });
+
+  it('should send entries that cannot be cloned in serializable form', async () => {
+    const transport = create();
+
+    transport.log(entry('with function', { context: { id: 2, callback: () => undefined } }));
+    await transport.close();
+
+    expect((await readLines())[0]?.context).toEqual({ id: 2, callback: '[Function: callback]' });
+  });
+
+  it('should drop entries once the queue is full', async () => {
+    const transport = create({ maxQueueSize: 2 });
+
+    for (let i = 0; i < 5; i++) transport.log(entry(`entry ${i}`));
+    expect(transport.getStats()).toEqual({ queued: 2, dropped: 3 });
+    await transport.close();
+
+    expect((await readLines()).map(line => line.message)).toEqual(['entry 0', 'entry 1']);
+  });
+
+  it('should block until the worker frees a slot with the block policy', async () => {
+    const transport = create({ maxQueueSize: 1, overflow: 'block' });
+
+    for (let i = 0; i < 3; i++) transport.log(entry(`entry ${i}`));
+    expect(transport.getStats().dropped).toBe(0);
+    await transport.close();
+
+    expect((await readLines()).map(line => line.message)).toEqual([
+      'entry 0',
+      'entry 1',
+      'entry 2',
+    ]);
+  });
+});
+
+describe('entry encoding', () => {
+  it('should keep error names, stacks and custom properties', () => {
+    const error = Object.assign(new RangeError('out of range'), { code: 'E_RANGE' });
+    const encoded = structuredClone(encodeEntry(entry('failed', { error })));
+    const decoded = decodeEntry(encoded);
+
+    expect(decoded.timestamp).toBeInstanceOf(Date);
+    expect(decoded.error).toBeInstanceOf(Error);
+    expect(decoded.error).toMatchObject({ name: 'RangeError', message: 'out of range' });
+    expect(decoded.error?.stack).toBe(error.stack);
+    expect((decoded.error as Error & { code?: string }).code).toBe('E_RANGE');
+  });
+});
@@ -0,0 +1,131 @@
+import { readFileSync } from 'fs';
+import { LogLevel } from '../types/enums/log-level.enum.js';
+import { LoadConfigOptions } from '../types/config/load-config-options.interface.js';
+import { LoggerFactoryOptions } from '../types/logger/logger-factory-options.interface.js';
+import {
+  ParsedConfig,
+  buildOptions,
+  createTransport,
+  level,
+  namespaces,
+  parseConfig,
+} from './parse-config.js';
+
+const LEVEL_PREFIX = 'GLYPHLOG_LEVEL_';
+
+/**
+ * Builds `LoggerFactory` options from a JSON configuration file and environment variables,
+ * the latter taking precedence:
+ * - `GLYPHLOG_CONFIG` - path of the configuration file, unless `options.file` is set
+ * - `GLYPHLOG_LEVEL` - default level, e.g. `debug`
+ * - `GLYPHLOG_TRANSPORTS` - comma-separated `console` and `file` transports, replacing those
+ *   of the file; defaults to `console,file` when only `GLYPHLOG_FILE` is set
+ * - `GLYPHLOG_FILE` - path written by the `file` transport, defaults to `./logs/app.log`
+ * - `GLYPHLOG_LEVEL_<name>` - level of a logger and its descendants, `__` standing for `.`
+ *   in its name
+ * - `GLYPHLOG_NAMESPACES` - `DEBUG` style rules replacing those of the file, e.g.
+ *   `api.*=debug,-api.db.*`
+ *
+ * The file describes levels, transports, formatters, middleware and per-logger settings,
+ * see `GlyphLogConfig`. Every value is validated before any transport is created, and
+ * `options.transports` created by an earlier call are reused when their options are unchanged.
+ * @param options - The configuration file and the environment to read.
+ * @returns Options for `new LoggerFactory()` or `LoggerFactory.getInstance()`.
+ * @throws Error listing every invalid value, e.g. `GLYPHLOG_LEVEL: expected one of trace, ...`.
+ * @example
+ * const factory = LoggerFactory.getInstance(loadConfig({ file: './glyphlog.json' }));
+ */
+export function loadConfig(options: LoadConfigOptions = {}): LoggerFactoryOptions {
+  const env = options.env ?? process.env;
+  const file = options.file ?? env.GLYPHLOG_CONFIG;
+  const issues: string[] = [];
+
+  const config = file ? readConfigFile(file, issues) : { defaultConfig: {} };
+  applyEnv(config, env, issues);
+
+  if (issues.length > 0) {
+    throw new Error(
+      `Invalid logger configuration:\n${issues.map(issue => `  - ${issue}`).join('\n')}`
+    );
+  }
+  return buildOptions(config, options.transports);
+}
+
+/**
+ * @internal
+ */
+function readConfigFile(file: string, issues: string[]): ParsedConfig {
+  let value: unknown;
+  try {
+    value = JSON.parse(readFileSync(file, 'utf8'));
+  } catch (error) {
+    issues.push(`${file}: ${error instanceof Error ? error.message : String(error)}`);
+    return { defaultConfig: {} };
+  }
+
+  const fileIssues: string[] = [];
+  const config = parseConfig(value, fileIssues);
+  issues.push(...fileIssues.map(issue => `${file}: ${issue}`));
+  return config;
+}
+
+/**
+ * Applies the `GLYPHLOG_*` variables over the file configuration.
+ * @internal
+ */
+function applyEnv(
+  config: ParsedConfig,
+  env: Record<string, string | undefined>,
+  issues: string[]
+): void {
+  const { GLYPHLOG_LEVEL, GLYPHLOG_TRANSPORTS, GLYPHLOG_FILE, GLYPHLOG_NAMESPACES } = env;
+
+  if (GLYPHLOG_LEVEL !== undefined) {
+    const parsed = level(GLYPHLOG_LEVEL, 'GLYPHLOG_LEVEL', issues);
+    if (parsed !== undefined) config.defaultConfig.level = parsed;
+  }
+
+  if (GLYPHLOG_NAMESPACES !== undefined) {
+    const parsed = namespaces(GLYPHLOG_NAMESPACES, 'GLYPHLOG_NAMESPACES', issues);
+    if (parsed !== undefined) config.namespaces = parsed;
+  }
+
+  const transports = GLYPHLOG_TRANSPORTS ?? (GLYPHLOG_FILE ? 'console,file' : undefined);
+  if (transports !== undefined) {
+    config.defaultConfig.transports = transports
+      .split(',')
+      .map(type => type.trim())
+      .filter(Boolean)
+      .flatMap(type => {
+        switch (type) {
+          case 'console': {
+            const config = { level: LogLevel.TRACE };
+            return [{ key: 'console', create: () => createTransport('console', config) }];
+          }
+          case 'file': {
+            const config = {
+              level: LogLevel.TRACE,
+              filename: GLYPHLOG_FILE ?? './logs/app.log',
+              json: true,
+            };
+            return [
+              { key: `file:${config.filename}`, create: () => createTransport('file', config) },
+            ];
+          }
+          default:
+            issues.push(`GLYPHLOG_TRANSPORTS: expected console or file, got "${type}"`);
+            return [];
+        }
+      });
+  }
+
+  for (const [key, value] of Object.entries(env)) {
+    if (!key.startsWith(LEVEL_PREFIX) || value === undefined) continue;
+
+    const name = key.slice(LEVEL_PREFIX.length).replace(/__/g, '.');
+    const parsed = level(value, key, issues);
+    if (parsed !== undefined) {
+      config.loggers = { ...config.loggers, [name]: { ...config.loggers?.[name], level: parsed } };
+    }
+  }
+}
@@ -0,0 +1,624 @@
+import { middleware } from '../factory.js';
+import {
+  ConsoleFormatter,
+  DevFormatter,
+  JsonFormatter,
+  PatternFormatter,
+  SimpleFormatter,
+} from '../formatters/index.js';
+import { dedupe, rateLimit, redact, sample, sampleBy } from '../middleware/index.js';
+import { parseNamespaceRules } from '../namespaces/index.js';
+import { redactionPatterns } from '../redaction/index.js';
+import {
+  ConsoleTransport,
+  FileTransport,
+  HttpTransport,
+  MemoryTransport,
+  StreamTransport,
+  SyslogTransport,
+} from '../transports/index.js';
+import { LogLevel } from '../types/enums/log-level.enum.js';
+import { LogFormatter } from '../types/formatters/log-formatter.interface.js';
+import { LogMiddleware } from '../types/log-middleware.type.js';
+import { NamedMiddleware } from '../types/named-middleware.interface.js';
+import { LoggerConfig } from '../types/logger/logger-config.interface.js';
+import { LoggerFactoryOptions } from '../types/logger/logger-factory-options.interface.js';
+import {
+  RedactionPathRule,
+  RedactionPatternRule,
+} from '../types/redaction/redaction-options.interface.js';
+import { FileTransportConfig } from '../types/transports/file-transport.config.js';
+import { HttpTransportConfig } from '../types/transports/http-transport.config.js';
+import { LogTransport } from '../types/transports/log-transport.interface.js';
+import { StreamTransportConfig } from '../types/transports/stream-transport.config.js';
+import { SyslogTransportConfig } from '../types/transports/syslog-transport.config.js';
+import { RouteCondition, RouteValue } from '../types/transports/transport-route.interface.js';
+
+/**
+ * Creates a transport, `key` identifying the options it is created from
+ */
+export interface TransportFactory {
+  key: string;
+  create: () => LogTransport;
+}
+
+// The key of each transport created by `buildOptions`, to reuse it while its options are unchanged
+const transportKeys = new WeakMap<LogTransport, string>();
+
+/**
+ * Logger settings whose transports are not created yet
+ */
+export interface LoggerSettings extends Omit<Partial<LoggerConfig>, 'transports'> {
+  transports?: TransportFactory[];
+}
+
+/**
+ * A validated configuration, see `parseConfig`
+ */
+export interface ParsedConfig {
+  defaultConfig: LoggerSettings;
+  middleware?: (LogMiddleware | NamedMiddleware)[];
+  loggers?: Record<string, LoggerSettings>;
+  namespaces?: string[];
+}
+
+/**
+ * Validates and converts a configuration value. Invalid values are reported to `issues`,
+ * prefixed with their path, and read as `undefined`.
+ * @internal
+ */
+type Parser<T> = (value: unknown, path: string, issues: string[]) => T | undefined;
+
+/**
+ * Parsers of the options of an object, by option name.
+ * @internal
+ */
+type Schema = Record<string, Parser<unknown>>;
+
+const LEVEL_NAMES = ['trace', 'debug', 'info', 'warn', 'error', 'fatal'];
+
+const string = is<string>(value => typeof value === 'string', 'a string');
+
+const number = is<number>(value => typeof value === 'number' && Number.isFinite(value), 'a number');
+
+const boolean = is<boolean>(value => typeof value === 'boolean', 'a boolean');
+
+const object = is<Record<string, unknown>>(isObject, 'an object');
+
+const strings = is<string[]>(
+  value => Array.isArray(value) && value.every(item => typeof item === 'string'),
+  'an array of strings'
+);
+
+const oneOf = <T extends string>(...values: T[]): Parser<T> =>
+  is(value => values.includes(value as T), `one of ${values.join(', ')}`);
+
+const arrayOf =
+  <T>(parse: Parser<T>): Parser<T[]> =>
+  (value, path, issues) => {
+    if (!check(Array.isArray(value), value, 'an array', path, issues)) return undefined;
+    return (value as unknown[])
+      .map((item, index) => parse(item, `${path}[${index}]`, issues))
+      .filter((item): item is T => item !== undefined);
+  };
+
+/**
+ * Reads a level name, case-insensitively.
+ */
+export const level: Parser<LogLevel> = (value, path, issues) => {
+  const name = typeof value === 'string' ? value.toUpperCase() : '';
+  const valid = LEVEL_NAMES.includes(name.toLowerCase());
+  if (!check(valid, value, `one of ${LEVEL_NAMES.join(', ')}`, path, issues)) return undefined;
+  return LogLevel[name as keyof typeof LogLevel];
+};
+
+const levels = arrayOf(level);
+
+const serializeOptions: Schema = {
+  maxDepth: number,
+  maxArrayLength: number,
+  maxStringLength: number,
+};
+
+const formatterSchemas: Record<string, Schema> = {
+  json: serializeOptions,
+  simple: serializeOptions,
+  dev: serializeOptions,
+  console: { ...serializeOptions, colors: boolean, timestamp: boolean },
+  pattern: { ...serializeOptions, pattern: string, colors: boolean, placeholder: string },
+};
+
+const formatter: Parser<LogFormatter> = (value, path, issues) => {
+  const spec = typeof value === 'string' ? { type: value } : value;
+  const options = readTyped(spec, formatterSchemas, path, issues);
+  if (!options) return undefined;
+
+  const { type, pattern, ...rest } = options;
+  switch (type) {
+    case 'json':
+      return new JsonFormatter(rest);
+    case 'simple':
+      return new SimpleFormatter(rest);
+    case 'dev':
+      return new DevFormatter(rest);
+    case 'console':
+      return new ConsoleFormatter(rest);
+    default:
+      return attempt(path, issues, () => new PatternFormatter(pattern as string | undefined, rest));
+  }
+};
+
+const strategy = oneOf('mask', 'hash', 'partial', 'remove');
+
+const redactPath: Parser<string | RedactionPathRule> = (value, path, issues) =>
+  typeof value === 'string'
+    ? value
+    : (read(value, { path: required(string), strategy }, path, issues) as
+        | RedactionPathRule
+        | undefined);
+
+// A built-in pattern name, or a regular expression source with its flags
+const redactPattern: Parser<RedactionPatternRule> = (value, path, issues) => {
+  if (typeof value === 'string') {
+    const names = Object.keys(redactionPatterns);
+    if (!check(names.includes(value), value, `one of ${names.join(', ')}`, path, issues)) {
+      return undefined;
+    }
+    return redactionPatterns[value as keyof typeof redactionPatterns];
+  }
+
+  const rule = read(value, { pattern: required(string), flags: string, strategy }, path, issues);
+  if (!rule) return undefined;
+  const { pattern, flags, ...rest } = rule as { pattern: string; flags?: string };
+  return attempt(path, issues, () => ({ pattern: new RegExp(pattern, flags), ...rest }));
+};
+
+const sampleRates: Parser<number | Partial<Record<LogLevel, number>>> = (value, path, issues) => {
+  if (typeof value === 'number') return value;
+  const rates = read(
+    value,
+    Object.fromEntries(LEVEL_NAMES.map(name => [name, number])),
+    path,
+    issues
+  );
+  if (!rates) return undefined;
+  return Object.fromEntries(
+    Object.entries(rates).map(([name, rate]) => [
+      LogLevel[name.toUpperCase() as keyof typeof LogLevel],
+      rate,
+    ])
+  );
+};
+
+// Every middleware can be registered under a `name`
+const middlewareSchemas: Record<string, Schema> = {
+  sanitize: { name: string, fields: strings },
+  caller: { name: string },
+  timestamp: { name: string },
+  sample: { name: string, rates: required(sampleRates) },
+  sampleBy: { name: string, field: required(string), rate: required(number), levels },
+  rateLimit: {
+    name: string,
+    limit: required(number),
+    interval: number,
+    burst: number,
+    levels,
+    summaryLevel: level,
+    maxKeys: number,
+  },
+  dedupe: { name: string, window: number, levels },
+  redact: {
+    name: string,
+    paths: arrayOf(redactPath),
+    patterns: arrayOf(redactPattern),
+    strategy,
+    mask: string,
+    visibleChars: number,
+  },
+};
+
+const middlewareEntry: Parser<LogMiddleware | NamedMiddleware> = (value, path, issues) => {
+  const options = readTyped(value, middlewareSchemas, path, issues);
+  if (!options) return undefined;
+
+  const { name, ...rest } = options;
+  const created = createMiddleware(rest);
+  return typeof name === 'string' ? { name, middleware: created } : created;
+};
+
+const createMiddleware = ({ type, ...config }: Record<string, unknown>): LogMiddleware => {
+  switch (type) {
+    case 'sanitize':
+      return middleware.sanitize(config.fields as string[] | undefined);
+    case 'caller':
+      return middleware.caller();
+    case 'timestamp':
+      return middleware.timestamp();
+    case 'sample':
+      return sample(config.rates as Parameters<typeof sample>[0]);
+    case 'sampleBy':
+      return sampleBy(
+        config.field as string,
+        config.rate as number,
+        config.levels as LogLevel[] | undefined
+      );
+    case 'rateLimit':
+      return rateLimit(config as unknown as Parameters<typeof rateLimit>[0]);
+    case 'dedupe':
+      return dedupe(config);
+    default:
+      return redact(config);
+  }
+};
+
+const routeValue = is<RouteValue>(
+  value =>
+    [value]
+      .flat()
+      .every(item => item === null || ['string', 'number', 'boolean'].includes(typeof item)),
+  'a string, number, boolean or null, or an array of them'
+);
+
+const routeCondition: Parser<RouteCondition> = (value, path, issues) => {
+  if (!object(value, path, issues)) return undefined;
+  const condition: RouteCondition = {};
+  for (const [field, expected] of Object.entries(value as Record<string, unknown>)) {
+    const parsed = routeValue(expected, `${path}.${field}`, issues);
+    if (parsed !== undefined) condition[field] = parsed;
+  }
+  return condition;
+};
+
+const routeConditions: Parser<RouteCondition | RouteCondition[]> = (value, path, issues) =>
+  Array.isArray(value)
+    ? arrayOf(routeCondition)(value, path, issues)
+    : routeCondition(value, path, issues);
+
+const stringOrNumber = is<string | number>(
+  value => typeof value === 'string' || (typeof value === 'number' && Number.isFinite(value)),
+  'a string or a number'
+);
+
+const facility = is<string | number>(
+  value =>
+    typeof value === 'number'
+      ? Number.isInteger(value) && value >= 0 && value <= 23
+      : typeof value === 'string' &&
+        /^(kern|user|mail|daemon|auth|syslog|lpr|news|uucp|cron|authpriv|ftp|local[0-7])$/.test(
+          value
+        ),
+  'a syslog facility name or a number from 0 to 23'
+);
+
+// Options shared by all transports
+const routing: Schema = {
+  level,
+  route: (value, path, issues) =>
+    read(value, { include: routeConditions, exclude: routeConditions }, path, issues),
+  middleware: arrayOf(middlewareEntry),
+};
+
+const transportSchemas: Record<string, Schema> = {
+  console: { ...routing, formatter, colors: boolean, timestamp: boolean, json: boolean },
+  file: {
+    ...routing,
+    formatter,
+    filename: required(string),
+    maxSize: number,
+    maxFiles: number,
+    maxAge: number,
+    frequency: oneOf('daily', 'hourly'),
+    compress: boolean,
+    bufferSize: number,
+    flushInterval: number,
+    maxBufferSize: number,
+    json: boolean,
+  },
+  http: {
+    ...routing,
+    formatter,
+    url: required(string),
+    json: boolean,
+    headers: object,
+    batchSize: number,
+    flushInterval: number,
+    retry: object,
+    maxBufferSize: number,
+    dropPolicy: oneOf('oldest', 'newest', 'lowest-level'),
+    spoolDir: string,
+    maxSpoolFiles: number,
+  },
+  memory: { ...routing, maxSize: number },
+  stream: {
+    ...routing,
+    formatter,
+    host: string,
+    port: required(number),
+    tls: (value, path, issues) =>
+      typeof value === 'boolean' ? value : object(value, path, issues),
+    connectTimeout: number,
+    reconnect: object,
+    maxBufferSize: number,
+  },
+  syslog: {
+    ...routing,
+    formatter,
+    messageFormatter: formatter,
+    protocol: oneOf('udp', 'tcp', 'unix'),
+    host: string,
+    port: number,
+    path: string,
+    framing: oneOf('octet-counting', 'newline'),
+    format: oneOf('rfc5424', 'rfc3164'),
+    facility,
+    appName: string,
+    hostname: string,
+    procId: stringOrNumber,
+    msgId: string,
+    structuredDataId: string,
+    severities: object,
+    connectTimeout: number,
+    reconnect: object,
+    maxBufferSize: number,
+    maxMessageSize: number,
+  },
+};
+
+// Transports open files and start timers, so they are only created once the whole
+// configuration is known to be valid
+const transport: Parser<TransportFactory> = (value, path, issues) => {
+  const options = readTyped(value, transportSchemas, path, issues);
+  if (!options) return undefined;
+
+  // Logger levels do the filtering, unless a transport sets its own level
+  const { type, ...config } = { level: LogLevel.TRACE, ...options };
+  return { key: JSON.stringify(value), create: () => createTransport(type, config) };
+};
+
+const loggerSchema: Schema = {
+  level,
+  silent: boolean,
+  exitOnError: boolean,
+  exitTimeout: number,
+  defaultMeta: object,
+  transports: arrayOf(transport),
+};
+
+/**
+ * Reads `DEBUG` style namespace rules, a string or a list of strings.
+ */
+export const namespaces: Parser<string[]> = (value, path, issues) => {
+  const rules = typeof value === 'string' ? [value] : strings(value, path, issues);
+  if (!rules) return undefined;
+  return attempt(path, issues, () => {
+    parseNamespaceRules(rules);
+    return rules;
+  });
+};
+
+/**
+ * Creates a transport from validated options.
+ * @param type - The transport type, e.g. `file`.
+ * @param config - The options of its constructor.
+ */
+export function createTransport(type: string, config: Record<string, unknown>): LogTransport {
+  switch (type) {
+    case 'console':
+      return new ConsoleTransport(config);
+    case 'file':
+      return new FileTransport(config as unknown as FileTransportConfig);
+    case 'http':
+      return new HttpTransport(config as unknown as HttpTransportConfig);
+    case 'stream':
+      return new StreamTransport(config as StreamTransportConfig);
+    case 'syslog':
+      return new SyslogTransport(config as SyslogTransportConfig);
+    default:
+      return new MemoryTransport(config);
+  }
+}
+
+/**
+ * Validates the contents of a configuration file.
+ * @param value - The parsed JSON configuration.
+ * @param issues - Receives a message for every invalid value.
+ * @returns The configuration, with transports still to be created by `buildOptions`.
+ */
+export function parseConfig(value: unknown, issues: string[]): ParsedConfig {
+  const config = read(
+    value,
+    {
+      ...loggerSchema,
+      middleware: arrayOf(middlewareEntry),
+      namespaces,
+      loggers: (loggers, path, loggerIssues) => {
+        if (!object(loggers, path, loggerIssues)) return undefined;
+        const schema = { ...loggerSchema, middleware: arrayOf(middlewareEntry) };
+        return Object.fromEntries(
+          Object.entries(loggers as Record<string, unknown>).map(([name, logger]) => [
+            name,
+            read(logger, schema, `${path}.${name}`, loggerIssues) ?? {},
+          ])
+        );
+      },
+    },
+    '',
+    issues
+  );
+  if (!config) return { defaultConfig: {} };
+
+  const { middleware: middlewareList, loggers, namespaces: rules, ...defaultConfig } = config;
+  return {
+    defaultConfig: defaultConfig as LoggerSettings,
+    ...(middlewareList !== undefined && {
+      middleware: middlewareList as (LogMiddleware | NamedMiddleware)[],
+    }),
+    ...(loggers !== undefined && { loggers: loggers as Record<string, LoggerSettings> }),
+    ...(rules !== undefined && { namespaces: rules as string[] }),
+  };
+}
+
+/**
+ * Creates the transports of a parsed configuration.
+ * @param config - A configuration returned by `parseConfig`.
+ * @param reuse - Transports created by an earlier call, taken instead of creating a transport
+ * with the same options.
+ */
+export function buildOptions(
+  config: ParsedConfig,
+  reuse: LogTransport[] = []
+): LoggerFactoryOptions {
+  const available = [...reuse];
+  const create = ({ key, create: createNew }: TransportFactory): LogTransport => {
+    const index = available.findIndex(transport => transportKeys.get(transport) === key);
+    const [reused] = index >= 0 ? available.splice(index, 1) : [];
+    if (reused) return reused;
+
+    const transport = createNew();
+    transportKeys.set(transport, key);
+    return transport;
+  };
+
+  const build = ({ transports, ...settings }: LoggerSettings): Partial<LoggerConfig> => ({
+    ...settings,
+    ...(transports && { transports: transports.map(create) }),
+  });
+
+  return {
+    defaultConfig: build(config.defaultConfig),
+    ...(config.middleware && { middleware: config.middleware }),
+    ...(config.namespaces && { namespaces: config.namespaces }),
+    ...(config.loggers && {
+      loggers: Object.fromEntries(
+        Object.entries(config.loggers).map(([name, settings]) => [name, build(settings)])
+      ),
+    }),
+  };
+}
+
+/**
+ * Marks an option as required.
+ * @internal
+ */
+function required<T>(parse: Parser<T>): Parser<T> {
+  const parser: Parser<T> = (value, path, issues) => parse(value, path, issues);
+  return Object.assign(parser, { required: true });
+}
+
+/**
+ * Reads the options of an object, reporting unknown options and missing required ones.
+ * @internal
+ */
+function read(
+  value: unknown,
+  schema: Schema,
+  path: string,
+  issues: string[]
+): Record<string, unknown> | undefined {
+  if (!object(value, path || 'configuration', issues)) return undefined;
+
+  const result: Record<string, unknown> = {};
+  for (const [key, option] of Object.entries(value as Record<string, unknown>)) {
+    const optionPath = path ? `${path}.${key}` : key;
+    const parse = own(schema, key);
+    if (!parse) {
+      issues.push(`${optionPath}: unknown option`);
+    } else if (option !== undefined) {
+      const parsed = parse(option, optionPath, issues);
+      if (parsed !== undefined) result[key] = parsed;
+    }
+  }
+
+  for (const [key, parse] of Object.entries(schema)) {
+    if ('required' in parse && (value as Record<string, unknown>)[key] === undefined) {
+      issues.push(`${path ? `${path}.${key}` : key}: required`);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Reads an object whose `type` selects the schema of its other options.
+ * @internal
+ */
+function readTyped(
+  value: unknown,
+  schemas: Record<string, Schema>,
+  path: string,
+  issues: string[]
+): (Record<string, unknown> & { type: string }) | undefined {
+  if (!object(value, path, issues)) return undefined;
+
+  const { type, ...options } = value as Record<string, unknown>;
+  const schema = typeof type === 'string' ? own(schemas, type) : undefined;
+  if (!schema) {
+    report(type, `one of ${Object.keys(schemas).join(', ')}`, `${path}.type`, issues);
+    return undefined;
+  }
+
+  const issueCount = issues.length;
+  const result = read(options, schema, path, issues);
+  // Only build values whose options are all valid
+  return result && issues.length === issueCount ? { ...result, type: type as string } : undefined;
+}
+
+/**
+ * Runs a constructor, reporting the error it throws as an issue.
+ * @internal
+ */
+function attempt<T>(path: string, issues: string[], create: () => T): T | undefined {
+  try {
+    return create();
+  } catch (error) {
+    issues.push(`${path}: ${error instanceof Error ? error.message : String(error)}`);
+    return undefined;
+  }
+}
+
+/**
+ * Creates a parser accepting the values satisfying a predicate as they are.
+ * @internal
+ */
+function is<T>(predicate: (value: unknown) => boolean, expected: string): Parser<T> {
+  return (value, path, issues) =>
+    check(predicate(value), value, expected, path, issues) ? (value as T) : undefined;
+}
+
+/**
+ * Reports an invalid value.
+ * @returns `valid`.
+ * @internal
+ */
+function check(
+  valid: boolean,
+  value: unknown,
+  expected: string,
+  path: string,
+  issues: string[]
+): boolean {
+  if (!valid) report(value, expected, path, issues);
+  return valid;
+}
+
+/**
+ * @internal
+ */
+function report(value: unknown, expected: string, path: string, issues: string[]): void {
+  issues.push(`${path}: expected ${expected}, got ${JSON.stringify(value)}`);
+}
+
+/**
+ * Reads an own property, ignoring inherited ones such as `constructor`.
+ * @internal
+ */
+function own<T>(record: Record<string, T>, key: string): T | undefined {
+  return Object.prototype.hasOwnProperty.call(record, key) ? record[key] : undefined;
+}
+
+/**
+ * @internal
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,87 @@
+/* globals NodeJS */
+import { FSWatcher, watch } from 'fs';
+import path from 'path';
+import { LoggerFactory } from '../factory.js';
+import { WatchConfigOptions } from '../types/config/watch-config-options.interface.js';
+import { loadConfig } from './load-config.js';
+
+/**
+ * Reloads the logger configuration when its file changes or when the process receives a
+ * signal, and applies it to the loggers of a factory with `LoggerFactory.configure()`, so that
+ * levels, silent flags and transports change without restarting.
+ *
+ * The configuration is read with `loadConfig`, environment variables included. Transports
+ * whose options did not change are kept, so that files and connections stay open. An invalid
+ * configuration is reported and the current one is kept.
+ * @param options - File, factory, signal and notification settings.
+ * @returns A function stopping the watcher and removing the signal handler.
+ * @example
+ * const factory = LoggerFactory.getInstance(loadConfig({ file: './glyphlog.json' }));
+ * watchConfig({ file: './glyphlog.json', factory });
+ * // edit glyphlog.json, or: kill -USR2 <pid>
+ */
+export function watchConfig(options: WatchConfigOptions = {}): () => void {
+  const factory = options.factory ?? LoggerFactory.getInstance();
+  const env = options.env ?? process.env;
+  const file = options.file ?? env.GLYPHLOG_CONFIG;
+  const signal = options.signal ?? 'SIGUSR2';
+  const debounce = options.debounce ?? 100;
+  const onError =
+    options.onError ??
+    ((error: unknown) => console.error('Failed to reload logger configuration:', error));
+
+  // Reloads run one at a time, a change during a reload schedules one more
+  let reloading: Promise<void> | undefined;
+  let pending = false;
+
+  const reload = (): void => {
+    if (reloading) {
+      pending = true;
+      return;
+    }
+
+    reloading = (async () => {
+      try {
+        const config = loadConfig({
+          ...(file !== undefined && { file }),
+          env,
+          transports: factory.getConfiguredTransports(),
+        });
+        await factory.configure(config);
+        options.onReload?.(config);
+      } catch (error) {
+        onError(error);
+      }
+    })().finally(() => {
+      reloading = undefined;
+      if (pending) {
+        pending = false;
+        reload();
+      }
+    });
+  };
+
+  let timer: NodeJS.Timeout | undefined;
+  let watcher: FSWatcher | undefined;
+
+  if (file && (options.watch ?? true)) {
+    // Editors often replace the file rather than write it, so its directory is watched
+    const name = path.basename(file);
+    watcher = watch(path.dirname(path.resolve(file)), { persistent: false }, (_event, changed) => {
+      if (changed && changed !== name) return;
+      clearTimeout(timer);
+      timer = setTimeout(reload, debounce);
+      timer.unref();
+    });
+    watcher.on('error', onError);
+  }
+
+  const onSignal = () => reload();
+  if (signal) process.on(signal, onSignal);
+
+  return () => {
+    clearTimeout(timer);
+    watcher?.close();
+    if (signal) process.removeListener(signal, onSignal);
+  };
+}
@@ -0,0 +1,40 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { LogMeta } from '../types/log-meta.interface.js';
+
+/**
+ * Process-wide store holding the metadata of the current async call chain.
+ * It is shared by every logger so that context set once applies to all of them.
+ * @internal
+ */
+const storage = new AsyncLocalStorage<LogMeta>();
+
+/**
+ * Runs a function with metadata attached to its whole async call chain.
+ * The metadata is merged over the currently active context, so calls can be nested.
+ * @param meta - Metadata merged into `entry.meta` of every entry logged inside `fn`.
+ * @param fn - The function to run.
+ * @returns The return value of `fn`.
+ */
+export function runWithContext<T>(meta: LogMeta, fn: () => T): T {
+  return storage.run({ ...storage.getStore(), ...meta }, fn);
+}
+
+/**
+ * Wraps a function so that every call runs with the given metadata as active context.
+ * @param meta - Metadata merged into `entry.meta` of every entry logged inside `fn`.
+ * @param fn - The function to wrap.
+ * @returns A function with the same signature as `fn`.
+ */
+export function withContext<TArgs extends unknown[], TResult>(
+  meta: LogMeta,
+  fn: (...args: TArgs) => TResult
+): (...args: TArgs) => TResult {
+  return (...args) => runWithContext(meta, () => fn(...args));
+}
+
+/**
+ * Returns the metadata of the current async call chain, if any.
+ */
+export function getActiveContext(): LogMeta | undefined {
+  return storage.getStore();
+}
@@ -0,0 +1 @@
+export * from './async-context.js';
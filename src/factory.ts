@@ -1,24 +1,48 @@
 import { Logger } from './loggers/index.js';
+import { dedupe, rateLimit, redact, sample, sampleBy } from './middleware/index.js';
+import { namespaceAncestors, parseNamespaceRules, resolveNamespace } from './namespaces/index.js';
 import { ConsoleTransport, FileTransport } from './transports/index.js';
 import { LogLevel } from './types/enums/log-level.enum.js';
+import { LogContext } from './types/log-context.type.js';
+import { LogMiddleware } from './types/log-middleware.type.js';
+import { LogMeta } from './types/log-meta.interface.js';
+import { LogEventMap } from './types/logger/log-event-map.type.js';
 import { LoggerConfig } from './types/logger/logger-config.interface.js';
 import { LoggerFactoryOptions } from './types/logger/logger-factory-options.interface.js';
+import { NamedMiddleware } from './types/named-middleware.interface.js';
+import { NamespaceRule } from './types/namespaces/namespace-rule.interface.js';
 import { TypedLogger } from './types/logger/typed-logger.interface.js';
 import { LogTransport } from './types/transports/log-transport.interface.js';
+import { matchesMiddleware } from './utils/index.js';
 /**
  * Manages the creation and lifecycle of logger instances.
  * This class follows a singleton pattern to ensure a single point of configuration.
+ *
+ * Logger names form a hierarchy, `.` and `:` separating its levels: a logger named
+ * `api.db.pool` takes each setting from the nearest of `api.db.pool`, `api.db` and `api`
+ * configured in the `loggers` option. The `namespaces` option then enables or silences
+ * loggers by pattern, like the `DEBUG` environment variable.
  */
 export class LoggerFactory {
   private static instance?: LoggerFactory;
   private defaultConfig: Partial<LoggerConfig>;
+  private loggerConfigs: Record<string, Partial<LoggerConfig>>;
+  private middleware: (LogMiddleware | NamedMiddleware)[];
+  private namespaceRules: NamespaceRule[];
   private loggers = new Map<string, TypedLogger>();
+  // The configuration each logger was created with in code, reapplied by configure()
+  private createConfigs = new Map<string, Partial<LoggerConfig> | undefined>();
+  // The transports each logger got from the configuration, as opposed to addTransport()
+  private configuredTransports = new Map<string, LogTransport[]>();
 
   /**
    * @param options - Configuration options for the factory.
    */
   constructor(options: LoggerFactoryOptions = {}) {
     this.defaultConfig = options.defaultConfig ?? {};
+    this.loggerConfigs = options.loggers ?? {};
+    this.middleware = options.middleware ?? [];
+    this.namespaceRules = parseNamespaceRules(options.namespaces ?? []);
   }
 
   /**
@@ -35,38 +59,101 @@ export class LoggerFactory {
 
   /**
    * Creates a new logger instance and registers it with the factory.
+   * Settings configured for the name or its ancestors in the factory's `loggers` option take
+   * precedence over `config`, so that configuration files and environment variables can
+   * override the code, and `namespaces` rules over both.
+   *
+   * Middleware runs in a defined order: the factory `middleware`, then the `middleware` of the
+   * logger configuration (`config`, overridden by the nearest configured ancestor), then the
+   * middleware added later with `use()`. This also applies to the preset loggers.
    * @param name - The name for the new logger.
    * @param config - Logger-specific configuration to merge with the default.
    * @returns The newly created logger instance.
+   * @example
+   * const logger = factory.create<AppMeta, AppContext, AppEvents>('api');
    */
-  create(name: string, config?: Partial<LoggerConfig>): TypedLogger {
-    const mergedConfig: LoggerConfig = {
-      ...this.defaultConfig,
-      ...config,
-      defaultMeta: {
-        ...this.defaultConfig.defaultMeta,
-        ...config?.defaultMeta,
-        logger: name,
-      },
-    };
-
-    const logger = new Logger(mergedConfig);
-    this.loggers.set(name, logger);
+  create<
+    TMeta extends object = LogMeta,
+    TContext extends object = LogContext,
+    TEvents extends object = LogEventMap,
+  >(name: string, config?: Partial<LoggerConfig>): TypedLogger<TMeta, TContext, TEvents> {
+    const loggerConfig = this.resolveConfig(name, config);
+    const logger = new Logger<TMeta, TContext, TEvents>({
+      ...loggerConfig,
+      middleware: [...this.middleware, ...(loggerConfig.middleware ?? [])],
+    });
+    // Loggers are stored untyped, their context types only matter at call sites
+    this.loggers.set(name, logger as unknown as TypedLogger);
+    this.createConfigs.set(name, config);
+    this.configuredTransports.set(name, loggerConfig.transports ?? []);
     return logger;
   }
 
+  /**
+   * Replaces the factory configuration and applies the level, silent flag and transports it
+   * resolves to to every registered logger, and through them to their child loggers.
+   * Settings the new configuration leaves out revert to the logger defaults, the configuration
+   * given to `create` still applying underneath. Transports added with `addTransport()` are
+   * kept after the configured ones; configured transports no longer used by any logger are
+   * flushed and closed, so pass the current ones to `loadConfig()` to keep those whose options
+   * are unchanged. The factory middleware is replaced when the configuration defines one, and
+   * only applies to loggers created afterwards.
+   * @param options - The new configuration, e.g. the result of `loadConfig()`.
+   * @example
+   * await factory.configure(
+   *   loadConfig({ file: './glyphlog.json', transports: factory.getConfiguredTransports() })
+   * );
+   */
+  async configure(options: LoggerFactoryOptions): Promise<void> {
+    // Parsed first so that invalid rules leave the configuration unchanged
+    this.namespaceRules = parseNamespaceRules(options.namespaces ?? []);
+    this.defaultConfig = options.defaultConfig ?? {};
+    this.loggerConfigs = options.loggers ?? {};
+    if (options.middleware) this.middleware = options.middleware;
+
+    const previous = new Set<LogTransport>();
+    const current = new Set<LogTransport>();
+
+    for (const [name, logger] of this.loggers) {
+      const config = this.resolveConfig(name, this.createConfigs.get(name));
+      const configured = this.configuredTransports.get(name) ?? [];
+      const added = logger.getTransports().filter(transport => !configured.includes(transport));
+      const transports = [...(config.transports ?? []), ...added];
+      for (const transport of configured) previous.add(transport);
+
+      logger.setLevel(config.level ?? LogLevel.INFO);
+      logger.setSilent(config.silent ?? false);
+      logger.setTransports(transports);
+      this.configuredTransports.set(name, config.transports ?? []);
+      for (const transport of transports) current.add(transport);
+    }
+
+    const unused = [...previous].filter(transport => !current.has(transport));
+    await Promise.all(
+      unused.map(async transport => {
+        try {
+          await transport.flush?.();
+          await transport.close?.();
+        } catch (error) {
+          console.error(`Failed to close transport ${transport.name}:`, error);
+        }
+      })
+    );
+  }
+
   /**
    * Retrieves an existing logger by name or creates a new one if it doesn't exist.
    * @param name - The name of the logger to retrieve or create.
    * @param config - Configuration to use if a new logger is created.
    * @returns An existing or new logger instance.
    */
-  get(name: string, config?: Partial<LoggerConfig>): TypedLogger {
-    let logger = this.loggers.get(name);
-    if (!logger) {
-      logger = this.create(name, config);
-    }
-    return logger;
+  get<
+    TMeta extends object = LogMeta,
+    TContext extends object = LogContext,
+    TEvents extends object = LogEventMap,
+  >(name: string, config?: Partial<LoggerConfig>): TypedLogger<TMeta, TContext, TEvents> {
+    const logger = this.loggers.get(name) as TypedLogger<TMeta, TContext, TEvents> | undefined;
+    return logger ?? this.create<TMeta, TContext, TEvents>(name, config);
   }
 
   /**
@@ -142,6 +229,47 @@ export class LoggerFactory {
     const promises = Array.from(this.loggers.values()).map(logger => logger.close());
     await Promise.all(promises);
     this.loggers.clear();
+    this.createConfigs.clear();
+    this.configuredTransports.clear();
+  }
+
+  /**
+   * Removes a middleware from the factory, so that loggers created afterwards do not run it,
+   * and from every registered logger.
+   * @param middleware - The middleware, or the name it was registered under.
+   * @returns Whether a middleware was removed from the factory or from a logger.
+   * @example
+   * const factory = new LoggerFactory({
+   *   middleware: [{ name: 'sampling', middleware: sample({ [LogLevel.DEBUG]: 0.1 }) }],
+   * });
+   * factory.removeMiddleware('sampling');
+   */
+  removeMiddleware(middleware: LogMiddleware | string): boolean {
+    const count = this.middleware.length;
+    this.middleware = this.middleware.filter(
+      registered => !matchesMiddleware(registered, middleware)
+    );
+
+    let removed = this.middleware.length < count;
+    for (const logger of this.loggers.values()) {
+      if (logger.removeMiddleware(middleware)) removed = true;
+    }
+    return removed;
+  }
+
+  /**
+   * Returns the transports of the factory configuration and those the registered loggers got
+   * from it, as opposed to the transports added with `addTransport()`.
+   * @example
+   * loadConfig({ file: './glyphlog.json', transports: factory.getConfiguredTransports() });
+   */
+  getConfiguredTransports(): LogTransport[] {
+    const transports = [
+      ...(this.defaultConfig.transports ?? []),
+      ...Object.values(this.loggerConfigs).flatMap(config => config.transports ?? []),
+      ...[...this.configuredTransports.values()].flat(),
+    ];
+    return [...new Set(transports)];
   }
 
   /**
@@ -151,6 +279,25 @@ export class LoggerFactory {
   getLoggerNames(): string[] {
     return Array.from(this.loggers.keys());
   }
+
+  /**
+   * Merges the default configuration, the configuration given in code, the settings
+   * configured for the ancestors of the logger and for the logger itself, and the namespace
+   * rules, in increasing precedence.
+   */
+  private resolveConfig(name: string, config?: Partial<LoggerConfig>): LoggerConfig {
+    const configs = [this.defaultConfig, config ?? {}];
+    for (const namespace of namespaceAncestors(name)) {
+      const loggerConfig = this.loggerConfigs[namespace];
+      if (loggerConfig) configs.push(loggerConfig);
+    }
+
+    return {
+      ...Object.assign({}, ...configs),
+      ...resolveNamespace(name, this.namespaceRules),
+      defaultMeta: Object.assign({}, ...configs.map(c => c.defaultMeta), { logger: name }),
+    };
+  }
 }
 
 /**
@@ -182,6 +329,7 @@ export const middleware = {
 
   /**
    * Creates a middleware to redact sensitive fields from the log context.
+   * See `redact` for metadata, errors, the message and value patterns.
    * @param sensitiveFields - An array of keys to redact. Defaults to ['password', 'token', 'secret'].
    */
   sanitize: (sensitiveFields: string[] = ['password', 'token', 'secret']) => {
@@ -220,6 +368,40 @@ export const middleware = {
       next();
     };
   },
+
+  /**
+   * Creates a middleware keeping a random fraction of the entries of each level.
+   * @param rates - Probability of keeping an entry, per level (e.g. `{ [LogLevel.DEBUG]: 0.1 }`).
+   */
+  sample,
+
+  /**
+   * Creates a middleware keeping or dropping all entries sharing a metadata value together.
+   * @param field - The `entry.meta` field to hash, e.g. `requestId`.
+   * @param rate - Fraction of field values to keep.
+   */
+  sampleBy,
+
+  /**
+   * Creates a token bucket middleware limiting each message template, with periodic
+   * "suppressed N messages" summary entries.
+   * @param options - Limit, interval and burst settings.
+   */
+  rateLimit,
+
+  /**
+   * Creates a middleware collapsing entries with the same level, message and error name
+   * within a window into the first entry and a "repeated N times" follow-up entry.
+   * @param options - Window and level settings.
+   */
+  dedupe,
+
+  /**
+   * Creates a middleware redacting paths and value patterns in the message, context,
+   * metadata and error of every entry.
+   * @param options - Redaction rules and replacement settings.
+   */
+  redact,
 };
 
 /**
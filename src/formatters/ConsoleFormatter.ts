@@ -3,6 +3,13 @@ import chalk from 'chalk';
 import { LogFormatter } from '../types/formatters/log-formatter.interface.js';
 import { LogEntry } from '../types/log-entry.interface.js';
 import { LogLevel } from '../types/enums/log-level.enum.js';
+import {
+  errorProperties,
+  safeStringify,
+  serializeError,
+  toSerializable,
+} from '../serializers/index.js';
+import { SerializeOptions } from '../types/serializers/serialize-options.interface.js';
 
 /**
  * Human-readable console formatter with colors
@@ -10,10 +17,17 @@ import { LogLevel } from '../types/enums/log-level.enum.js';
 export class ConsoleFormatter implements LogFormatter {
   private colors: boolean;
   private showTimestamp: boolean;
-
-  constructor(options: { colors?: boolean; timestamp?: boolean } = {}) {
-    this.colors = options.colors ?? true;
-    this.showTimestamp = options.timestamp ?? true;
+  private options: SerializeOptions;
+
+  /**
+   * @param options - `colors` and `timestamp` toggles, plus depth and size limits applied
+   * to context and metadata values.
+   */
+  constructor(options: { colors?: boolean; timestamp?: boolean } & SerializeOptions = {}) {
+    const { colors, timestamp, ...serializeOptions } = options;
+    this.colors = colors ?? true;
+    this.showTimestamp = timestamp ?? true;
+    this.options = serializeOptions;
   }
 
   format(entry: LogEntry): string {
@@ -61,7 +75,22 @@ export class ConsoleFormatter implements LogFormatter {
   }
 
   private formatError(error: Error): string {
-    const errorInfo = `${error.name}: ${error.message}`;
+    const serialized = serializeError(error);
+    const { name, message, cause, errors } = serialized;
+    const properties = errorProperties(serialized);
+    let errorInfo = `${name}: ${message}`;
+
+    if (Object.keys(properties).length > 0)
+      errorInfo += ` ${safeStringify(properties, this.options)}`;
+    if (errors) errorInfo += ` (${errors.length} errors)`;
+
+    // Follow the cause chain on the same line
+    let current = cause;
+    while (isErrorLike(current)) {
+      errorInfo += ` <- caused by ${current.name}: ${current.message}`;
+      current = current.cause;
+    }
+
     return this.colors ? chalk.red(errorInfo) : errorInfo;
   }
 
@@ -74,10 +103,18 @@ export class ConsoleFormatter implements LogFormatter {
   }
 
   private formatValue(value: unknown): string {
-    if (typeof value === 'string') return `"${value}"`;
-    if (typeof value === 'object' && value !== null) {
-      return JSON.stringify(value);
+    const serializable = toSerializable(value, this.options);
+    if (typeof value === 'string') return `"${serializable as string}"`;
+    if (typeof serializable === 'object' && serializable !== null) {
+      return JSON.stringify(serializable);
     }
-    return String(value);
+    return String(serializable as string | number | boolean | undefined);
   }
 }
+
+/**
+ * @internal
+ */
+function isErrorLike(value: unknown): value is { name: string; message: string; cause?: unknown } {
+  return typeof value === 'object' && value !== null && 'name' in value && 'message' in value;
+}
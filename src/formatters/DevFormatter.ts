@@ -3,11 +3,22 @@ import chalk from 'chalk';
 import { LogFormatter } from '../types/formatters/log-formatter.interface.js';
 import { LogEntry } from '../types/log-entry.interface.js';
 import { LogLevel } from '../types/enums/log-level.enum.js';
+import { formatErrorText, safeStringify, serializeError } from '../serializers/index.js';
+import { SerializeOptions } from '../types/serializers/serialize-options.interface.js';
 
 /**
  * Development-friendly formatter
  */
 export class DevFormatter implements LogFormatter {
+  private options: SerializeOptions;
+
+  /**
+   * @param options - Depth and size limits applied to contexts.
+   */
+  constructor(options: SerializeOptions = {}) {
+    this.options = options;
+  }
+
   format(entry: LogEntry): string {
     const time = dayjs(entry.timestamp).format('HH:mm:ss.SSS');
     const level = this.getLevelIcon(entry.level);
@@ -16,22 +27,21 @@ export class DevFormatter implements LogFormatter {
     let formatted = `${chalk.gray(time)} ${level} ${message}`;
 
     if (entry.context && Object.keys(entry.context).length > 0) {
-      formatted += `\n${chalk.gray('Context:')} ${JSON.stringify(entry.context, null, 2)
+      formatted += `\n${chalk.gray('Context:')} ${safeStringify(entry.context, this.options, 2)
         .split('\n')
         .map(line => `  ${line}`)
         .join('\n')}`;
     }
 
     if (entry.error) {
-      formatted += `\n${chalk.red('Error:')} ${entry.error.message}`;
-      if (entry.error.stack) {
-        formatted += `\n${chalk.gray(
-          entry.error.stack
-            .split('\n')
-            .map(line => `  ${line}`)
-            .join('\n')
-        )}`;
-      }
+      const error = serializeError(entry.error);
+      formatted += `\n${chalk.red('Error:')} ${error.message}`;
+      formatted += `\n${chalk.gray(
+        formatErrorText(error)
+          .split('\n')
+          .map(line => `  ${line}`)
+          .join('\n')
+      )}`;
     }
 
     return formatted;
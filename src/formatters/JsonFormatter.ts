@@ -1,25 +1,33 @@
 import { LogFormatter } from '../types/formatters/log-formatter.interface.js';
 import { LogEntry } from '../types/log-entry.interface.js';
 import { LogLevel } from '../types/enums/log-level.enum.js';
+import { serializeError, toSerializable } from '../serializers/index.js';
+import { SerializeOptions } from '../types/serializers/serialize-options.interface.js';
 
 /**
  * JSON formatter for structured logging
  */
 export class JsonFormatter implements LogFormatter {
+  private options: SerializeOptions;
+
+  /**
+   * @param options - Depth and size limits applied to contexts, metadata and errors.
+   */
+  constructor(options: SerializeOptions = {}) {
+    this.options = options;
+  }
+
   format(entry: LogEntry): string {
     const formatted = {
       timestamp: entry.timestamp.toISOString(),
       level: LogLevel[entry.level],
       message: entry.message,
-      ...(entry.context && { context: entry.context }),
-      ...(entry.error && {
-        error: {
-          name: entry.error.name,
-          message: entry.error.message,
-          stack: entry.error.stack,
-        },
-      }),
-      ...(entry.meta && { meta: entry.meta }),
+      ...(entry.traceId && { traceId: entry.traceId }),
+      ...(entry.spanId && { spanId: entry.spanId }),
+      ...(entry.traceFlags !== undefined && { traceFlags: entry.traceFlags }),
+      ...(entry.context && { context: toSerializable(entry.context, this.options) }),
+      ...(entry.error && { error: toSerializable(serializeError(entry.error), this.options) }),
+      ...(entry.meta && { meta: toSerializable(entry.meta, this.options) }),
     };
 
     return JSON.stringify(formatted);
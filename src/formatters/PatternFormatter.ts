@@ -0,0 +1,193 @@
+import dayjs from 'dayjs';
+import chalk from 'chalk';
+import { LogFormatter } from '../types/formatters/log-formatter.interface.js';
+import { LogEntry } from '../types/log-entry.interface.js';
+import { LogLevel } from '../types/enums/log-level.enum.js';
+import { serializeError, toSerializable } from '../serializers/index.js';
+import { SerializeOptions } from '../types/serializers/serialize-options.interface.js';
+
+type Segment = string | ((entry: LogEntry) => string);
+
+const DEFAULT_PATTERN = '%d [%-5level] %msg %ctx';
+const DEFAULT_DATE_FORMAT = 'YYYY-MM-DD HH:mm:ss.SSS';
+const TOKEN = /%(?:(%)|(n)|(-?\d+)?([a-zA-Z]+)((?:\.[\w$-]+)*)(?:\{([^}]*)\})?)/g;
+
+/**
+ * Formatter rendering entries from a log4j-style pattern.
+ *
+ * Supported tokens, all accepting a `%-10token` / `%10token` padding modifier:
+ * - `%d` / `%d{HH:mm:ss}` - timestamp as a dayjs format, `%d{ISO}` for ISO 8601
+ * - `%level` / `%p` - level name, colored when `colors` is enabled
+ * - `%msg` / `%m` - message
+ * - `%ctx`, `%ctx.user.id` - whole context as JSON, or a single path
+ * - `%meta`, `%meta.requestId` - whole metadata as JSON, or a single path
+ * - `%logger` - the `meta.logger` name set by `LoggerFactory`
+ * - `%traceId`, `%spanId` - distributed tracing identifiers
+ * - `%err`, `%err.name`, `%err.code`, `%err.cause.message` - error details, see `serializeError`
+ * - `%caller`, `%caller.function` - caller info added by `middleware.caller()`
+ * - `%n` - newline, `%%` - a literal percent sign
+ */
+export class PatternFormatter implements LogFormatter {
+  private segments: Segment[];
+  private colors: boolean;
+  private placeholder: string;
+  private options: SerializeOptions;
+
+  /**
+   * @param pattern - The pattern to render, e.g. `"%d{HH:mm:ss} [%level] %msg %ctx"`.
+   * @param options - `colors` to colorize the level, `placeholder` for missing values, plus
+   * depth and size limits applied to rendered values.
+   * @throws Error if the pattern contains an unknown token.
+   */
+  constructor(
+    pattern: string = DEFAULT_PATTERN,
+    options: { colors?: boolean; placeholder?: string } & SerializeOptions = {}
+  ) {
+    const { colors, placeholder, ...serializeOptions } = options;
+    this.colors = colors ?? false;
+    this.placeholder = placeholder ?? '';
+    this.options = serializeOptions;
+    this.segments = this.compile(pattern);
+  }
+
+  format(entry: LogEntry): string {
+    return this.segments
+      .map(segment => (typeof segment === 'string' ? segment : segment(entry)))
+      .join('');
+  }
+
+  private compile(pattern: string): Segment[] {
+    const segments: Segment[] = [];
+    let lastIndex = 0;
+
+    for (const match of pattern.matchAll(TOKEN)) {
+      const [token, percent, newline, width, name = '', path = '', arg] = match;
+      const { index } = match;
+
+      if (index > lastIndex) segments.push(pattern.slice(lastIndex, index));
+      lastIndex = index + token.length;
+
+      if (percent) {
+        segments.push('%');
+      } else if (newline) {
+        segments.push('\n');
+      } else {
+        const render = this.compileToken(name, path.slice(1), arg);
+        const padded = width ? pad(render, parseInt(width, 10)) : render;
+        // Colors are applied after padding so that escape codes do not count towards the width
+        segments.push(
+          this.colors && (name === 'p' || name === 'level')
+            ? entry => this.colorize(entry.level, padded(entry))
+            : padded
+        );
+      }
+    }
+
+    if (lastIndex < pattern.length) segments.push(pattern.slice(lastIndex));
+    return segments;
+  }
+
+  private compileToken(
+    name: string,
+    path: string,
+    arg: string | undefined
+  ): (entry: LogEntry) => string {
+    const keys = path ? path.split('.') : [];
+
+    switch (name) {
+      case 'd':
+      case 'date': {
+        const format = arg ?? DEFAULT_DATE_FORMAT;
+        return entry =>
+          format === 'ISO' ? entry.timestamp.toISOString() : dayjs(entry.timestamp).format(format);
+      }
+      case 'p':
+      case 'level':
+        return entry => LogLevel[entry.level];
+      case 'm':
+      case 'msg':
+      case 'message':
+        return entry => entry.message;
+      case 'ctx':
+      case 'context':
+        return entry => this.stringify(resolve(entry.context, keys));
+      case 'meta':
+        return entry => this.stringify(resolve(entry.meta, keys));
+      case 'logger':
+        return entry => this.stringify(entry.meta?.logger);
+      case 'traceId':
+        return entry => this.stringify(entry.traceId);
+      case 'spanId':
+        return entry => this.stringify(entry.spanId);
+      case 'err':
+      case 'error':
+        return entry => {
+          if (!entry.error) return this.placeholder;
+          if (keys.length === 0) return `${entry.error.name}: ${entry.error.message}`;
+          return this.stringify(resolve(serializeError(entry.error), keys));
+        };
+      case 'caller':
+        return entry => {
+          const caller = resolve(entry.meta?.caller, keys);
+          if (keys.length === 0 && isCallerInfo(caller)) return `${caller.file}:${caller.line}`;
+          return this.stringify(caller);
+        };
+      default:
+        throw new Error(`Unknown pattern token '%${name}'`);
+    }
+  }
+
+  private stringify(value: unknown): string {
+    const serializable = toSerializable(value, this.options);
+    if (serializable === undefined || serializable === null) return this.placeholder;
+    if (typeof serializable === 'object') {
+      if (Object.keys(serializable).length === 0) return this.placeholder;
+      return JSON.stringify(serializable);
+    }
+    return String(serializable as string | number | boolean);
+  }
+
+  private colorize(level: LogLevel, text: string): string {
+    const colorMap = {
+      [LogLevel.TRACE]: chalk.gray,
+      [LogLevel.DEBUG]: chalk.blue,
+      [LogLevel.INFO]: chalk.green,
+      [LogLevel.WARN]: chalk.yellow,
+      [LogLevel.ERROR]: chalk.red,
+      [LogLevel.FATAL]: chalk.bgRed.white,
+    };
+
+    return colorMap[level](text);
+  }
+}
+
+/**
+ * Reads a dotted path from an object.
+ * @internal
+ */
+function resolve(source: unknown, keys: string[]): unknown {
+  let value = source;
+  for (const key of keys) {
+    if (typeof value !== 'object' || value === null) return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+/**
+ * Pads a rendered token, right-aligning for positive widths and left-aligning for negative ones.
+ * @internal
+ */
+function pad(render: (entry: LogEntry) => string, width: number): (entry: LogEntry) => string {
+  return entry => {
+    const text = render(entry);
+    return width < 0 ? text.padEnd(-width) : text.padStart(width);
+  };
+}
+
+/**
+ * @internal
+ */
+function isCallerInfo(value: unknown): value is { file: string; line: number } {
+  return typeof value === 'object' && value !== null && 'file' in value && 'line' in value;
+}
@@ -1,11 +1,22 @@
 import { LogFormatter } from '../types/formatters/log-formatter.interface.js';
 import { LogEntry } from '../types/log-entry.interface.js';
 import { LogLevel } from '../types/enums/log-level.enum.js';
+import { formatErrorText, safeStringify, serializeError } from '../serializers/index.js';
+import { SerializeOptions } from '../types/serializers/serialize-options.interface.js';
 
 /**
  * Simple formatter for file output
  */
 export class SimpleFormatter implements LogFormatter {
+  private options: SerializeOptions;
+
+  /**
+   * @param options - Depth and size limits applied to contexts.
+   */
+  constructor(options: SerializeOptions = {}) {
+    this.options = options;
+  }
+
   format(entry: LogEntry): string {
     const timestamp = entry.timestamp.toISOString();
     const level = LogLevel[entry.level].toUpperCase();
@@ -14,13 +25,14 @@ export class SimpleFormatter implements LogFormatter {
     let formatted = `${timestamp} [${level}] ${message}`;
 
     if (entry.context && Object.keys(entry.context).length > 0) {
-      formatted += ` ${JSON.stringify(entry.context)}`;
+      formatted += ` ${safeStringify(entry.context, this.options)}`;
     }
 
     if (entry.error) {
-      formatted += ` ERROR: ${entry.error.message}`;
-      if (entry.error.stack) {
-        formatted += `\nSTACK: ${entry.error.stack}`;
+      const error = serializeError(entry.error);
+      formatted += ` ERROR: ${error.message}`;
+      if (error.stack) {
+        formatted += `\nSTACK: ${formatErrorText(error)}`;
       }
     }
 
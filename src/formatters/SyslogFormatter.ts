@@ -0,0 +1,174 @@
+import os from 'os';
+import { LogFormatter } from '../types/formatters/log-formatter.interface.js';
+import {
+  SyslogFacility,
+  SyslogFormat,
+  SyslogFormatterOptions,
+} from '../types/formatters/syslog-formatter-options.interface.js';
+import { LogEntry } from '../types/log-entry.interface.js';
+import { LogLevel, LogLevelString } from '../types/enums/log-level.enum.js';
+import { formatErrorText, safeStringify, serializeError } from '../serializers/index.js';
+import { SerializeOptions } from '../types/serializers/serialize-options.interface.js';
+
+const FACILITIES: Record<SyslogFacility, number> = {
+  kern: 0,
+  user: 1,
+  mail: 2,
+  daemon: 3,
+  auth: 4,
+  syslog: 5,
+  lpr: 6,
+  news: 7,
+  uucp: 8,
+  cron: 9,
+  authpriv: 10,
+  ftp: 11,
+  local0: 16,
+  local1: 17,
+  local2: 18,
+  local3: 19,
+  local4: 20,
+  local5: 21,
+  local6: 22,
+  local7: 23,
+};
+
+// Syslog has no trace severity, so TRACE shares debug (7) with DEBUG
+const SEVERITIES: Record<LogLevelString, number> = {
+  TRACE: 7,
+  DEBUG: 7,
+  INFO: 6,
+  WARN: 4,
+  ERROR: 3,
+  FATAL: 2,
+};
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+/**
+ * Syslog formatter producing RFC 5424 messages, or RFC 3164 ones with `format: 'rfc3164'`.
+ *
+ * The priority combines the facility with the severity of the level (FATAL is critical,
+ * ERROR error, WARN warning, INFO informational, DEBUG and TRACE debug). RFC 5424 messages
+ * carry the entry metadata, trace and span IDs as structured data.
+ */
+export class SyslogFormatter implements LogFormatter {
+  private format5424: boolean;
+  private facility: number;
+  private severities: Record<LogLevelString, number>;
+  private hostname: string;
+  private appName: string;
+  private procId: string;
+  private msgId: string;
+  private structuredDataId: string;
+  private message: LogFormatter | undefined;
+  private options: SerializeOptions;
+
+  /**
+   * @param options - Header fields, level mapping and limits applied to contexts and metadata.
+   */
+  constructor(options: SyslogFormatterOptions = {}) {
+    const format: SyslogFormat = options.format ?? 'rfc5424';
+    this.format5424 = format === 'rfc5424';
+    this.facility =
+      typeof options.facility === 'number'
+        ? options.facility
+        : FACILITIES[options.facility ?? 'user'];
+    this.severities = { ...SEVERITIES, ...options.severities };
+    this.hostname = headerField(options.hostname ?? os.hostname(), 255);
+    this.appName = headerField(options.appName ?? process.title, 48);
+    this.procId = headerField(String(options.procId ?? process.pid), 128);
+    this.msgId = headerField(options.msgId ?? '', 32);
+    this.structuredDataId = sdName(options.structuredDataId ?? 'meta@32473');
+    this.message = options.message;
+    this.options = options;
+
+    if (!Number.isInteger(this.facility) || this.facility < 0 || this.facility > 23) {
+      throw new Error(`Invalid syslog facility: ${String(options.facility)}`);
+    }
+  }
+
+  format(entry: LogEntry): string {
+    const severity = this.severities[LogLevel[entry.level] as LogLevelString];
+    const priority = `<${this.facility * 8 + severity}>`;
+    const message = this.message ? this.message.format(entry) : this.formatMessage(entry);
+
+    if (!this.format5424) {
+      // TAG[PID]: only alphanumeric characters may appear in the tag
+      const tag = this.appName.replace(/[^A-Za-z0-9_.-]/g, '').slice(0, 32) || '-';
+      return `${priority}${bsdTimestamp(entry.timestamp)} ${this.hostname} ${tag}[${this.procId}]: ${message}`;
+    }
+
+    const header = [
+      `${priority}1`,
+      entry.timestamp.toISOString(),
+      this.hostname,
+      this.appName,
+      this.procId,
+      this.msgId,
+      this.structuredData(entry),
+    ].join(' ');
+    return message ? `${header} ${message}` : header;
+  }
+
+  /**
+   * Renders the metadata, trace and span IDs as a single SD-ELEMENT, or `-` if there are none.
+   */
+  private structuredData(entry: LogEntry): string {
+    const params: Record<string, unknown> = {
+      ...entry.meta,
+      ...(entry.traceId && { traceId: entry.traceId }),
+      ...(entry.spanId && { spanId: entry.spanId }),
+    };
+
+    const rendered = Object.entries(params)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => {
+        const text = typeof value === 'string' ? value : safeStringify(value, this.options);
+        return `${sdName(key)}="${text.replace(/["\\\]]/g, '\\$&')}"`;
+      });
+
+    return rendered.length > 0 ? `[${this.structuredDataId} ${rendered.join(' ')}]` : '-';
+  }
+
+  private formatMessage(entry: LogEntry): string {
+    let formatted = entry.message;
+
+    if (entry.context && Object.keys(entry.context).length > 0) {
+      formatted += ` ${safeStringify(entry.context, this.options)}`;
+    }
+
+    if (entry.error) {
+      formatted += ` ${formatErrorText(serializeError(entry.error))}`;
+    }
+
+    return formatted;
+  }
+}
+
+/**
+ * Keeps the printable ASCII characters of a header field, `-` standing for an empty value.
+ * @internal
+ */
+function headerField(value: string, maxLength: number): string {
+  return value.replace(/[^\x21-\x7e]/g, '').slice(0, maxLength) || '-';
+}
+
+/**
+ * Keeps the characters allowed in an SD-ID or PARAM-NAME.
+ * @internal
+ */
+function sdName(value: string): string {
+  return value.replace(/[^\x21-\x7e]|[= \]"]/g, '').slice(0, 32) || '-';
+}
+
+/**
+ * Formats a date as `Mmm dd hh:mm:ss` in local time, the day padded with a space.
+ * @internal
+ */
+function bsdTimestamp(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, ' ');
+  const time = `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+  return `${MONTHS[date.getMonth()] ?? ''} ${day} ${time}`;
+}
@@ -2,3 +2,5 @@ export * from './JsonFormatter.js';
 export * from './ConsoleFormatter.js';
 export * from './SimpleFormatter.js';
 export * from './DevFormatter.js';
+export * from './PatternFormatter.js';
+export * from './SyslogFormatter.js';
@@ -2,6 +2,9 @@
 export { Logger } from './loggers/index.js';
 export { LoggerFactory, createLogger, middleware, defaultLogger } from './factory.js';
 
+// Configuration
+export { loadConfig, watchConfig } from './config/index.js';
+
 // Enums
 export { LogLevel } from './types/enums/log-level.enum.js';
 
@@ -11,6 +14,8 @@ export {
   ConsoleFormatter,
   SimpleFormatter,
   DevFormatter,
+  PatternFormatter,
+  SyslogFormatter,
 } from './formatters/index.js';
 
 // Transports
@@ -19,8 +24,53 @@ export {
   FileTransport,
   HttpTransport,
   MemoryTransport,
+  StreamTransport,
+  SyslogTransport,
+  WorkerTransport,
 } from './transports/index.js';
 
+// Async context propagation
+export { runWithContext, withContext, getActiveContext } from './context/index.js';
+
+// Distributed tracing
+export {
+  parseTraceparent,
+  formatTraceparent,
+  generateTraceId,
+  generateSpanId,
+} from './tracing/index.js';
+
+// HTTP framework integrations
+export {
+  requestLogger,
+  fastifyRequestLogger,
+  koaRequestLogger,
+  startRequestLog,
+  levelForStatus,
+} from './integrations/index.js';
+
+// Serialization
+export {
+  serializeError,
+  registerErrorSerializer,
+  unregisterErrorSerializer,
+  formatErrorText,
+  toSerializable,
+  safeStringify,
+} from './serializers/index.js';
+
+// Redaction
+export { createRedactor, redactionPatterns } from './redaction/index.js';
+
+// Namespaces
+export { namespaceAncestors, matchNamespace, parseNamespaceRules } from './namespaces/index.js';
+
+// Graceful shutdown
+export { handleExit } from './shutdown/index.js';
+
+// Log querying
+export { queryLogFiles, readLogFile, matchesQuery } from './utils/index.js';
+
 // Convenience exports for quick usage
 export { trace, debug, info, warn, error, fatal } from './factory.js';
 
@@ -0,0 +1,230 @@
+import { randomUUID } from 'crypto';
+import type { IncomingMessage, ServerResponse } from 'http';
+import { runWithContext } from '../context/index.js';
+import { parseTraceparent } from '../tracing/index.js';
+import { LogLevel } from '../types/enums/log-level.enum.js';
+import { RequestLoggerOptions } from '../types/integrations/request-logger-options.interface.js';
+import { LogMeta } from '../types/log-meta.interface.js';
+import { TypedLogger } from '../types/logger/typed-logger.interface.js';
+
+/**
+ * A request logging session started by `startRequestLog`.
+ */
+export interface RequestLog {
+  logger: TypedLogger;
+  meta: LogMeta;
+}
+
+/**
+ * Maps a response status code to a log level: `ERROR` for 5xx, `WARN` for 4xx, `INFO` otherwise.
+ * @param statusCode - The response status code.
+ */
+export function levelForStatus(statusCode: number): LogLevel {
+  if (statusCode >= 500) return LogLevel.ERROR;
+  if (statusCode >= 400) return LogLevel.WARN;
+  return LogLevel.INFO;
+}
+
+/**
+ * Creates a child logger for a request, logs its start and schedules the completion entry.
+ * Framework adapters are built on top of this function.
+ * @param logger - The parent logger.
+ * @param req - The incoming request.
+ * @param res - The server response.
+ * @param options - Request logging options.
+ * @returns The child logger and the metadata it carries, or `undefined` if the request is ignored.
+ */
+export function startRequestLog(
+  logger: TypedLogger,
+  req: IncomingMessage,
+  res: ServerResponse,
+  options: RequestLoggerOptions = {}
+): RequestLog | undefined {
+  if (options.ignore?.(req)) return undefined;
+
+  const header = options.requestIdHeader ?? 'x-request-id';
+  const incomingId = req.headers[header.toLowerCase()];
+  const requestId =
+    (Array.isArray(incomingId) ? incomingId[0] : incomingId) ??
+    (options.generateRequestId ?? randomUUID)();
+
+  const meta: LogMeta = { requestId, ...parseTraceparent(req.headers.traceparent) };
+  const child = logger.child(meta);
+  const getLevel = options.getLevel ?? levelForStatus;
+
+  if (options.setResponseHeader ?? true) {
+    res.setHeader(header, requestId);
+  }
+
+  const method = req.method ?? 'GET';
+  const url = (req as IncomingMessage & { originalUrl?: string }).originalUrl ?? req.url ?? '/';
+  const start = process.hrtime.bigint();
+  const countBytes = trackResponseSize(res);
+
+  if (options.logStart ?? true) {
+    child.info('Request started', {
+      method,
+      url,
+      remoteAddress: req.socket.remoteAddress,
+      userAgent: req.headers['user-agent'],
+    });
+  }
+
+  const complete = (aborted: boolean) => {
+    res.removeListener('finish', onFinish);
+    res.removeListener('close', onClose);
+
+    const duration = Math.round(Number(process.hrtime.bigint() - start) / 1e4) / 100;
+    const contentLength = Number(res.getHeader('content-length'));
+    const context = {
+      method,
+      url,
+      statusCode: res.statusCode,
+      responseSize: Number.isNaN(contentLength) ? countBytes() : contentLength,
+      duration,
+    };
+
+    if (aborted) {
+      child.warn('Request aborted', context);
+    } else {
+      child.log(getLevel(res.statusCode), 'Request completed', context);
+    }
+  };
+  const onFinish = () => complete(false);
+  const onClose = () => complete(!res.writableFinished);
+
+  res.once('finish', onFinish);
+  res.once('close', onClose);
+
+  return { logger: child, meta };
+}
+
+/**
+ * Request logging middleware for the Node `http` module and Express.
+ * Attaches a child logger to the request (`req.log` by default) and, when used as Express
+ * middleware, runs the rest of the chain with the request metadata as async context.
+ * @param logger - The parent logger.
+ * @param options - Request logging options.
+ * @returns A `(req, res, next?)` function.
+ * @example
+ * const logRequest = requestLogger(logger);
+ * http.createServer((req, res) => {
+ *   logRequest(req, res);
+ *   (req as any).log.info('Handling');
+ * });
+ * app.use(requestLogger(logger));
+ */
+export function requestLogger(logger: TypedLogger, options: RequestLoggerOptions = {}) {
+  return (req: IncomingMessage, res: ServerResponse, next?: (error?: unknown) => void): void => {
+    const requestLog = startRequestLog(logger, req, res, options);
+
+    if (requestLog) {
+      attach(req, options.requestProperty ?? 'log', requestLog.logger);
+      if (next) runWithContext(requestLog.meta, next);
+    } else {
+      next?.();
+    }
+  };
+}
+
+/**
+ * Request logging hook for Fastify, registered with `fastify.register()`.
+ * The child logger is attached as `request.logger` by default, since Fastify owns `request.log`.
+ * @param logger - The parent logger.
+ * @param options - Request logging options.
+ */
+export function fastifyRequestLogger(logger: TypedLogger, options: RequestLoggerOptions = {}) {
+  const plugin = (fastify: FastifyInstanceLike, _opts: unknown, done: () => void): void => {
+    fastify.addHook('onRequest', (request, reply, next) => {
+      const requestLog = startRequestLog(logger, request.raw, reply.raw, options);
+      if (!requestLog) return next();
+
+      attach(request, options.requestProperty ?? 'logger', requestLog.logger);
+      runWithContext(requestLog.meta, next);
+    });
+    done();
+  };
+
+  // Equivalent of fastify-plugin: apply the hook outside of the plugin's encapsulation context
+  return Object.assign(plugin, { [Symbol.for('skip-override')]: true });
+}
+
+/**
+ * Request logging middleware for Koa. The child logger is attached as `ctx.log` by default
+ * and downstream middleware runs with the request metadata as async context.
+ * @param logger - The parent logger.
+ * @param options - Request logging options.
+ */
+export function koaRequestLogger(logger: TypedLogger, options: RequestLoggerOptions = {}) {
+  return async (ctx: KoaContextLike, next: () => Promise<unknown>): Promise<void> => {
+    const requestLog = startRequestLog(logger, ctx.req, ctx.res, options);
+    if (!requestLog) {
+      await next();
+      return;
+    }
+
+    attach(ctx, options.requestProperty ?? 'log', requestLog.logger);
+    ctx.state.log = requestLog.logger;
+    await runWithContext(requestLog.meta, next);
+  };
+}
+
+/**
+ * The subset of a Fastify instance used by `fastifyRequestLogger`.
+ */
+export interface FastifyInstanceLike {
+  addHook(
+    name: 'onRequest',
+    hook: (
+      request: { raw: IncomingMessage },
+      reply: { raw: ServerResponse },
+      done: () => void
+    ) => void
+  ): unknown;
+}
+
+/**
+ * The subset of a Koa context used by `koaRequestLogger`.
+ */
+export interface KoaContextLike {
+  req: IncomingMessage;
+  res: ServerResponse;
+  state: Record<string, unknown>;
+}
+
+/**
+ * @internal
+ */
+function attach(target: object, property: string, logger: TypedLogger): void {
+  (target as Record<string, unknown>)[property] = logger;
+}
+
+/**
+ * Counts the bytes written to a response, for responses without a `Content-Length` header.
+ * @internal
+ */
+function trackResponseSize(res: ServerResponse): () => number {
+  let bytes = 0;
+  const count = (chunk: unknown, encoding?: unknown) => {
+    if (typeof chunk === 'string') {
+      const charset = typeof encoding === 'string' ? encoding : 'utf8';
+      bytes += Buffer.byteLength(chunk, charset as Parameters<typeof Buffer.byteLength>[1]);
+    } else if (chunk instanceof Uint8Array) {
+      bytes += chunk.byteLength;
+    }
+  };
+
+  const write = res.write.bind(res) as (...args: unknown[]) => boolean;
+  const end = res.end.bind(res) as (...args: unknown[]) => ServerResponse;
+
+  res.write = ((...args: unknown[]) => {
+    count(args[0], args[1]);
+    return write(...args);
+  }) as typeof res.write;
+  res.end = ((...args: unknown[]) => {
+    if (typeof args[0] !== 'function') count(args[0], args[1]);
+    return end(...args);
+  }) as typeof res.end;
+
+  return () => bytes;
+}
@@ -1,101 +1,210 @@
+/* globals NodeJS */
+import { getActiveContext, runWithContext, withContext } from '../context/index.js';
 import { LogLevel } from '../types/enums/log-level.enum.js';
+import { LogContext } from '../types/log-context.type.js';
 import { LogEntry } from '../types/log-entry.interface.js';
 import { LogMeta } from '../types/log-meta.interface.js';
 import { LogMiddleware } from '../types/log-middleware.type.js';
+import { NamedMiddleware } from '../types/named-middleware.interface.js';
+import { ContextValidator } from '../types/logger/context-validator.type.js';
+import { LogEventMap } from '../types/logger/log-event-map.type.js';
 import { LoggerConfig } from '../types/logger/logger-config.interface.js';
+import { TraceContext, TraceContextProvider } from '../types/trace-context.interface.js';
 import { TypedLogger } from '../types/logger/typed-logger.interface.js';
 import { LogTransport } from '../types/transports/log-transport.interface.js';
+import { acceptsEntry, copyEntry, matchesMiddleware, middlewareName } from '../utils/index.js';
+import { MiddlewareChain } from './MiddlewareChain.js';
 /**
  * Abstract base class for the main logger.
  * Handles core logging logic, middleware, and transport management.
  * @internal
  */
-export abstract class BaseLogger implements TypedLogger {
+export abstract class BaseLogger<
+  TMeta extends object = LogMeta,
+  TContext extends object = LogContext,
+  TEvents extends object = LogEventMap,
+> implements TypedLogger<TMeta, TContext, TEvents>
+{
   protected level: LogLevel;
   protected transports: LogTransport[] = [];
   protected defaultMeta: LogMeta;
   protected exitOnError: boolean;
+  protected exitTimeout: number;
   protected silent: boolean;
-  protected middleware: LogMiddleware[] = [];
+  protected middleware: (LogMiddleware | NamedMiddleware)[];
+  protected middlewareTimeout: number;
+  protected traceContext: TraceContextProvider | undefined;
+  protected contextValidator: ContextValidator | undefined;
+  private chain = new MiddlewareChain(
+    () => this.middleware,
+    () => this.middlewareTimeout,
+    entry => this.writeToTransports(entry)
+  );
+  // Chains of the transports with their own middleware
+  private transportChains = new WeakMap<LogTransport, MiddlewareChain>();
+  // Settings a child logger reads from its parent, until they are set on the child itself
+  private parent: BaseLogger<object, object, object> | undefined;
+  private inherited = new Set<'level' | 'silent' | 'transports'>();
 
   constructor(config: LoggerConfig = {}) {
     this.level = config.level ?? LogLevel.INFO;
     this.transports = config.transports ?? [];
     this.defaultMeta = config.defaultMeta ?? {};
     this.exitOnError = config.exitOnError ?? false;
+    this.exitTimeout = config.exitTimeout ?? 5000;
     this.silent = config.silent ?? false;
+    this.middleware = [...(config.middleware ?? [])];
+    this.middlewareTimeout = config.middlewareTimeout ?? 1000;
+    this.traceContext = config.traceContext;
+    this.contextValidator = config.contextValidator;
   }
 
-  use(middleware: LogMiddleware): void {
-    this.middleware.push(middleware);
+  /**
+   * Adds a middleware at the end of the chain.
+   * @param middleware - The middleware.
+   * @param name - Registers the middleware under a name, replacing in place the middleware
+   * registered under the same name if any.
+   */
+  use(middleware: LogMiddleware, name?: string): void {
+    if (name === undefined) {
+      this.middleware.push(middleware);
+      return;
+    }
+
+    const index = this.middleware.findIndex(registered => middlewareName(registered) === name);
+    if (index >= 0) {
+      this.middleware[index] = { name, middleware };
+    } else {
+      this.middleware.push({ name, middleware });
+    }
   }
 
-  trace(message: string, context?: Record<string, unknown>): void {
+  /**
+   * Removes a middleware from the chain. Child loggers created before keep it.
+   * @param middleware - The middleware, or the name it was registered under.
+   * @returns Whether a middleware was removed.
+   */
+  removeMiddleware(middleware: LogMiddleware | string): boolean {
+    const count = this.middleware.length;
+    this.middleware = this.middleware.filter(
+      registered => !matchesMiddleware(registered, middleware)
+    );
+    return this.middleware.length < count;
+  }
+
+  trace(message: string, context?: TContext): void {
     this.log(LogLevel.TRACE, message, context);
   }
 
-  debug(message: string, context?: Record<string, unknown>): void {
+  debug(message: string, context?: TContext): void {
     this.log(LogLevel.DEBUG, message, context);
   }
 
-  info(message: string, context?: Record<string, unknown>): void {
+  info(message: string, context?: TContext): void {
     this.log(LogLevel.INFO, message, context);
   }
 
-  warn(message: string, context?: Record<string, unknown>): void {
+  warn(message: string, context?: TContext): void {
     this.log(LogLevel.WARN, message, context);
   }
 
-  error(message: string, error?: Error, context?: Record<string, unknown>): void {
+  error(message: string, error?: Error, context?: TContext): void {
     this.log(LogLevel.ERROR, message, context, error);
   }
 
-  fatal(message: string, error?: Error, context?: Record<string, unknown>): void {
+  fatal(message: string, error?: Error, context?: TContext): void {
     this.log(LogLevel.FATAL, message, context, error);
 
     if (this.exitOnError) {
-      process.exit(1);
+      // Exit once the entry reached the transports, without waiting forever on a stuck one
+      let timer: NodeJS.Timeout | undefined;
+      const timeout = new Promise<void>(resolve => {
+        timer = setTimeout(resolve, this.exitTimeout);
+      });
+      void Promise.race([this.flush(), timeout]).then(() => {
+        clearTimeout(timer);
+        process.exit(1);
+      });
     }
   }
 
-  log(level: LogLevel, message: string, context?: Record<string, unknown>, error?: Error): void {
-    if (this.isSilent() || level < this.level) return;
+  event<TName extends keyof TEvents & string>(
+    name: TName,
+    context: TEvents[TName],
+    level: LogLevel = LogLevel.INFO
+  ): void {
+    this.write(level, name, context as object);
+  }
+
+  log(level: LogLevel, message: string, context?: TContext, error?: Error): void {
+    this.write(level, message, context, error);
+  }
+
+  /**
+   * Builds an entry and runs it through the middleware chain. Unlike `log()`, accepts any
+   * context, for entries produced by the logger itself.
+   */
+  protected write(level: LogLevel, message: string, context?: object, error?: Error): void {
+    if (this.isSilent() || level < this.getLevel()) return;
+
+    const meta: LogMeta = { ...this.defaultMeta, ...getActiveContext() };
+    const trace = this.getTraceContext(meta);
+    // Trace identifiers live at the top level of the entry, not in its metadata
+    delete meta.traceId;
+    delete meta.spanId;
+    delete meta.traceFlags;
 
     const entry: LogEntry = {
       level,
       message,
       timestamp: new Date(),
-      meta: { ...this.defaultMeta },
-      ...(context && { context }),
+      meta,
+      ...(trace && { traceId: trace.traceId, spanId: trace.spanId }),
+      ...(trace?.traceFlags !== undefined && { traceFlags: trace.traceFlags }),
+      ...(context && { context: context as LogContext }),
       ...(error && { error }),
     };
 
-    this.processEntry(entry);
-  }
-
-  private processEntry(entry: LogEntry): void {
-    let index = 0;
+    if (entry.context && this.contextValidator) {
+      const result = this.contextValidator(entry.context, entry);
+      if (result === false) return;
+      if (Array.isArray(result) && result.length > 0) meta.contextErrors = result;
+    }
 
-    const next = (): void => {
-      if (index < this.middleware.length) {
-        const currentMiddleware = this.middleware[index++];
-        if (currentMiddleware) {
-          currentMiddleware(entry, next);
-        } else {
-          next(); // Should not happen, but safe guard
-        }
-      } else {
-        void this.writeToTransports(entry);
-      }
-    };
+    this.chain.process(entry);
+  }
 
-    next();
+  /**
+   * Resolves the trace context of the current operation. Identifiers set through metadata
+   * (`runWithContext`, `child`) take precedence over the configured provider.
+   * @param meta - The metadata to read identifiers from, defaults to the active metadata.
+   */
+  protected getTraceContext(
+    meta: LogMeta = { ...this.defaultMeta, ...getActiveContext() }
+  ): TraceContext | undefined {
+    if (meta.traceId && meta.spanId) {
+      return {
+        traceId: meta.traceId,
+        spanId: meta.spanId,
+        ...(meta.traceFlags !== undefined && { traceFlags: meta.traceFlags }),
+      };
+    }
+    return this.traceContext?.();
   }
 
+  /**
+   * Writes an entry to the transports whose level, filter and route accept it. Transports with
+   * their own middleware receive a copy of the entry once it went through that middleware.
+   */
   private async writeToTransports(entry: LogEntry): Promise<void> {
-    const promises = this.transports.map(async transport => {
+    const promises = this.activeTransports().map(async transport => {
       try {
-        if (transport.level === undefined || entry.level >= transport.level) {
+        if (transport.level !== undefined && entry.level < transport.level) return;
+        if (!acceptsEntry(transport, entry)) return;
+
+        if (transport.middleware?.length) {
+          this.transportChain(transport).process(copyEntry(entry));
+        } else {
           await transport.log(entry);
         }
       } catch (err) {
@@ -106,30 +215,133 @@ export abstract class BaseLogger implements TypedLogger {
     await Promise.all(promises);
   }
 
-  abstract child(meta: LogMeta): TypedLogger;
+  private transportChain(transport: LogTransport): MiddlewareChain {
+    let chain = this.transportChains.get(transport);
+    if (!chain) {
+      chain = new MiddlewareChain(
+        () => transport.middleware ?? [],
+        () => this.middlewareTimeout,
+        async entry => {
+          try {
+            await transport.log(entry);
+          } catch (err) {
+            console.error(`Transport ${transport.name} failed:`, err);
+          }
+        }
+      );
+      this.transportChains.set(transport, chain);
+    }
+    return chain;
+  }
+
+  /**
+   * Waits for the entries in the middleware chains of the logger and of its transports.
+   */
+  private async waitForWrites(): Promise<void> {
+    await this.chain.idle();
+    await Promise.all(
+      this.activeTransports().map(async transport => this.transportChains.get(transport)?.idle())
+    );
+  }
+
+  abstract child<TChildMeta extends Partial<TMeta>>(
+    meta: TChildMeta
+  ): TypedLogger<TMeta & TChildMeta, TContext, TEvents>;
+
+  /**
+   * Runs a function with metadata attached to every entry logged during its async call chain,
+   * by this logger or any other.
+   * @param meta - Metadata merged into `entry.meta`.
+   * @param fn - The function to run.
+   * @returns The return value of `fn`.
+   */
+  runWithContext<T>(meta: LogMeta, fn: () => T): T {
+    return runWithContext(meta, fn);
+  }
+
+  /**
+   * Wraps a function so that every call runs with the given metadata as active context.
+   * @param meta - Metadata merged into `entry.meta`.
+   * @param fn - The function to wrap.
+   * @returns A function with the same signature as `fn`.
+   */
+  withContext<TArgs extends unknown[], TResult>(
+    meta: LogMeta,
+    fn: (...args: TArgs) => TResult
+  ): (...args: TArgs) => TResult {
+    return withContext(meta, fn);
+  }
+
+  /**
+   * Makes this logger follow the level, silent flag and transports of a parent logger, so
+   * that changing the parent also applies to it. Setting one of them on this logger stops
+   * following the parent for that setting.
+   * @param parent - The logger this one was derived from.
+   */
+  protected inheritFrom(parent: BaseLogger<object, object, object>): void {
+    this.parent = parent;
+    this.inherited = new Set(['level', 'silent', 'transports']);
+  }
 
   setLevel(level: LogLevel): void {
     this.level = level;
+    this.inherited.delete('level');
   }
 
   getLevel(): LogLevel {
-    return this.level;
+    return this.parent && this.inherited.has('level') ? this.parent.getLevel() : this.level;
   }
 
   addTransport(transport: LogTransport): void {
-    this.transports.push(transport);
+    this.setTransports([...this.activeTransports(), transport]);
   }
 
   removeTransport(name: string): void {
-    this.transports = this.transports.filter(t => t.name !== name);
+    this.setTransports(this.activeTransports().filter(t => t.name !== name));
+  }
+
+  /**
+   * Replaces the transports of the logger. The previous transports are not closed.
+   * @param transports - The new transports.
+   */
+  setTransports(transports: LogTransport[]): void {
+    this.transports = [...transports];
+    this.inherited.delete('transports');
   }
 
   getTransports(): LogTransport[] {
-    return [...this.transports];
+    return [...this.activeTransports()];
+  }
+
+  protected activeTransports(): LogTransport[] {
+    return this.parent && this.inherited.has('transports')
+      ? this.parent.activeTransports()
+      : this.transports;
+  }
+
+  /**
+   * Waits for the entries being written and flushes the transports that buffer entries.
+   */
+  async flush(): Promise<void> {
+    await this.waitForWrites();
+
+    const promises = this.activeTransports().map(async transport => {
+      if (transport.flush) {
+        try {
+          await transport.flush();
+        } catch (err) {
+          console.error(`Failed to flush transport ${transport.name}:`, err);
+        }
+      }
+    });
+
+    await Promise.all(promises);
   }
 
   async close(): Promise<void> {
-    const promises = this.transports.map(async transport => {
+    await this.waitForWrites();
+
+    const promises = this.activeTransports().map(async transport => {
       if (transport.close) {
         try {
           await transport.close();
@@ -144,9 +356,10 @@ export abstract class BaseLogger implements TypedLogger {
 
   setSilent(silent: boolean): void {
     this.silent = silent;
+    this.inherited.delete('silent');
   }
 
   isSilent(): boolean {
-    return this.silent;
+    return this.parent && this.inherited.has('silent') ? this.parent.isSilent() : this.silent;
   }
 }
@@ -1,6 +1,11 @@
 import { BaseLogger } from './BaseLogger.js';
+import { runWithContext } from '../context/index.js';
+import { formatTraceparent, generateSpanId, generateTraceId } from '../tracing/index.js';
 import { LogLevel } from '../types/enums/log-level.enum.js';
+import { LogContext } from '../types/log-context.type.js';
 import { LogMeta } from '../types/log-meta.interface.js';
+import { LogEventMap } from '../types/logger/log-event-map.type.js';
+import { LogSpan } from '../types/logger/log-span.interface.js';
 import { LoggerConfig } from '../types/logger/logger-config.interface.js';
 import { PerformanceLogger } from '../types/logger/performance-logger.interface.js';
 import { TypedLogger } from '../types/logger/typed-logger.interface.js';
@@ -9,7 +14,14 @@ import { TypedLogger } from '../types/logger/typed-logger.interface.js';
  * Main Logger class that extends BaseLogger with performance monitoring,
  * child logger creation, and statistics.
  */
-export class Logger extends BaseLogger implements PerformanceLogger {
+export class Logger<
+    TMeta extends object = LogMeta,
+    TContext extends object = LogContext,
+    TEvents extends object = LogEventMap,
+  >
+  extends BaseLogger<TMeta, TContext, TEvents>
+  implements PerformanceLogger
+{
   private timers = new Map<string, number>();
   private profiles = new Map<string, number>();
 
@@ -19,20 +31,26 @@ export class Logger extends BaseLogger implements PerformanceLogger {
 
   /**
    * Creates a child logger with additional metadata merged with the parent's.
+   * The child follows later changes to the parent's level, silent flag and transports,
+   * unless they are set on the child itself.
    * @param meta - Metadata to add to the child logger.
    * @returns A new Logger instance inheriting parent's configuration.
    */
-  child(meta: LogMeta): TypedLogger {
+  child<TChildMeta extends Partial<TMeta>>(
+    meta: TChildMeta
+  ): TypedLogger<TMeta & TChildMeta, TContext, TEvents> {
     const childConfig: LoggerConfig = {
-      level: this.level,
-      transports: this.transports,
       defaultMeta: { ...this.defaultMeta, ...meta },
       exitOnError: this.exitOnError,
-      silent: this.isSilent(),
+      exitTimeout: this.exitTimeout,
+      middleware: this.middleware,
+      middlewareTimeout: this.middlewareTimeout,
+      ...(this.traceContext && { traceContext: this.traceContext }),
+      ...(this.contextValidator && { contextValidator: this.contextValidator }),
     };
 
-    const childLogger = new Logger(childConfig);
-    childLogger['middleware'] = [...this.middleware];
+    const childLogger = new Logger<TMeta & TChildMeta, TContext, TEvents>(childConfig);
+    childLogger.inheritFrom(this as unknown as Logger<object, object, object>);
 
     return childLogger;
   }
@@ -59,7 +77,7 @@ export class Logger extends BaseLogger implements PerformanceLogger {
     const duration = Date.now() - startTime;
     this.timers.delete(label);
 
-    this.info(`${label}: ${duration}ms`, { performance: { label, duration } });
+    this.write(LogLevel.INFO, `${label}: ${duration}ms`, { performance: { label, duration } });
   }
 
   /**
@@ -85,7 +103,7 @@ export class Logger extends BaseLogger implements PerformanceLogger {
     const duration = Date.now() - startTime;
     this.profiles.delete(label);
 
-    this.info(`Profile completed: ${label}`, {
+    this.write(LogLevel.INFO, `Profile completed: ${label}`, {
       profile: {
         label,
         duration,
@@ -95,6 +113,58 @@ export class Logger extends BaseLogger implements PerformanceLogger {
     });
   }
 
+  /**
+   * Starts a traced span, a profile whose start and end entries carry trace and span IDs.
+   * The span joins the current trace (from metadata or the trace context provider) as a
+   * child span, or starts a new trace. Entries logged inside `span.run()` carry its IDs.
+   * @param name - The name of the operation.
+   * @param context - Context added to the start and end entries.
+   * @returns The span, to be ended with `span.end()`.
+   */
+  startSpan(name: string, context?: Record<string, unknown>): LogSpan {
+    const parent = this.getTraceContext();
+    const traceId = parent?.traceId ?? generateTraceId();
+    const spanId = generateSpanId();
+    const traceFlags = parent?.traceFlags ?? 1;
+    const parentMeta = parent ? { parentSpanId: parent.spanId } : {};
+    const spanMeta: LogMeta = { traceId, spanId, traceFlags, ...parentMeta };
+
+    const label = `${name}:${spanId}`;
+    const startTime = Date.now();
+    this.profiles.set(label, startTime);
+    runWithContext(spanMeta, () => this.write(LogLevel.DEBUG, `Span started: ${name}`, context));
+
+    return {
+      name,
+      traceId,
+      spanId,
+      traceFlags,
+      ...parentMeta,
+      end: endContext => {
+        if (!this.profiles.delete(label)) {
+          this.warn(`Span '${name}' was already ended`);
+          return;
+        }
+
+        const endTime = Date.now();
+        runWithContext(spanMeta, () =>
+          this.write(LogLevel.INFO, `Span completed: ${name}`, {
+            ...context,
+            ...endContext,
+            span: {
+              name,
+              duration: endTime - startTime,
+              startTime: new Date(startTime).toISOString(),
+              endTime: new Date(endTime).toISOString(),
+            },
+          })
+        );
+      },
+      run: fn => runWithContext(spanMeta, fn),
+      traceparent: () => formatTraceparent({ traceId, spanId, traceFlags }),
+    };
+  }
+
   /**
    * Retrieves statistics about the logger's state.
    * @returns An object containing logger statistics.
@@ -106,8 +176,8 @@ export class Logger extends BaseLogger implements PerformanceLogger {
     activeProfiles: string[];
   } {
     return {
-      level: LogLevel[this.level],
-      transports: this.transports.map(t => t.name),
+      level: LogLevel[this.getLevel()],
+      transports: this.activeTransports().map(t => t.name),
       activeTimers: Array.from(this.timers.keys()),
       activeProfiles: Array.from(this.profiles.keys()),
     };
@@ -0,0 +1,182 @@
+/* globals NodeJS */
+import { LogEntry } from '../types/log-entry.interface.js';
+import { LogMiddleware } from '../types/log-middleware.type.js';
+import { NamedMiddleware } from '../types/named-middleware.interface.js';
+import { middlewareName, unwrapMiddleware } from '../utils/index.js';
+
+/**
+ * Runs entries through a list of middleware and hands the entries they pass on to a writer,
+ * in the order the entries were processed.
+ *
+ * A middleware that does not call `next()` drops the entry; entries passed to `emit()`
+ * continue through the middleware that follow the emitting one. Middleware may return a
+ * promise, in which case the entries processed meanwhile wait for it. A middleware returning
+ * without a promise nor calling `next()` does not hold the following entries: calling `next()`
+ * later, within the timeout, passes the entry on after them. A middleware that throws,
+ * rejects or does not settle within the timeout is reported and skipped.
+ * @internal
+ */
+export class MiddlewareChain {
+  private getMiddleware: () => (LogMiddleware | NamedMiddleware)[];
+  private getTimeout: () => number;
+  private write: (entry: LogEntry) => Promise<void>;
+  // Entries in the chain or waiting for earlier ones, in processing order
+  private pendingEntries: PendingEntry[] = [];
+  private pendingWrites = new Set<Promise<void>>();
+
+  /**
+   * @param getMiddleware - Returns the current middleware, which may change between entries.
+   * @param getTimeout - Returns the time, in milliseconds, given to an asynchronous middleware.
+   * @param write - Writes the entries passed on by the last middleware.
+   */
+  constructor(
+    getMiddleware: () => (LogMiddleware | NamedMiddleware)[],
+    getTimeout: () => number,
+    write: (entry: LogEntry) => Promise<void>
+  ) {
+    this.getMiddleware = getMiddleware;
+    this.getTimeout = getTimeout;
+    this.write = write;
+  }
+
+  /**
+   * Runs an entry through the middleware, starting at `start`, then writes it.
+   * @param before - The entry emitting this one, which it is written before.
+   */
+  process(entry: LogEntry, start = 0, before?: PendingEntry): void {
+    const pending: PendingEntry = { entry, processed: false, dropped: false };
+    const position = before && !before.processed ? this.pendingEntries.indexOf(before) : -1;
+    if (position >= 0) {
+      this.pendingEntries.splice(position, 0, pending);
+    } else {
+      this.pendingEntries.push(pending);
+    }
+
+    const finish = (dropped: boolean): void => {
+      pending.processed = true;
+      pending.dropped = dropped;
+      this.writePendingEntries();
+    };
+
+    const step = (index: number): void => {
+      const registered = this.getMiddleware()[index];
+      if (!registered) return finish(false);
+      const currentMiddleware = unwrapMiddleware(registered);
+      const name = middlewareName(registered) ?? (currentMiddleware.name || index);
+      const timeout = this.getTimeout();
+
+      let settled = false;
+      let returnedAt: number | undefined; // returned without a promise before calling next()
+      let timer: NodeJS.Timeout | undefined;
+      const settle = (then: () => void): void => {
+        clearTimeout(timer);
+        if (settled) return;
+        settled = true;
+        then();
+      };
+      const next = () => {
+        if (returnedAt === undefined) return settle(() => step(index + 1));
+
+        // The entry was set aside when the middleware returned, it continues as a new one
+        const elapsed = Date.now() - returnedAt;
+        returnedAt = undefined;
+        if (elapsed > timeout) {
+          console.error(
+            `Middleware ${name} called next() ${elapsed}ms after returning, the entry was dropped: return a promise to call it asynchronously`
+          );
+          return;
+        }
+        this.process(entry, index + 1);
+      };
+      const fail = (error: unknown) => {
+        console.error(`Middleware ${name} failed:`, error);
+        next();
+      };
+
+      try {
+        const result = currentMiddleware(entry, next, emitted =>
+          this.process(emitted, index + 1, pending)
+        );
+
+        if (result instanceof Promise) {
+          timer = setTimeout(() => {
+            console.error(`Middleware ${name} timed out after ${timeout}ms`);
+            next();
+          }, timeout);
+          timer.unref();
+          // Resolving without calling next() drops the entry
+          result.then(() => settle(() => finish(true)), fail);
+        } else {
+          settle(() => {
+            returnedAt = Date.now();
+            finish(true);
+          });
+        }
+      } catch (error) {
+        fail(error);
+      }
+    };
+
+    step(start);
+
+    // Entries waiting for the middleware of earlier ones count as pending writes
+    if (this.pendingEntries.includes(pending)) {
+      const write = new Promise<void>(resolve => {
+        pending.written = resolve;
+      });
+      this.track(write);
+    }
+  }
+
+  /**
+   * Flushes the middleware, so that the entries they hold back are emitted, then waits for the
+   * entries in the chain to be written.
+   */
+  async idle(): Promise<void> {
+    this.getMiddleware().forEach((registered, index) => {
+      const currentMiddleware = unwrapMiddleware(registered);
+      try {
+        currentMiddleware.flush?.();
+      } catch (error) {
+        const name = middlewareName(registered) ?? (currentMiddleware.name || index);
+        console.error(`Middleware ${name} failed to flush:`, error);
+      }
+    });
+    await Promise.all(this.pendingWrites);
+  }
+
+  /**
+   * Writes the entries at the head of the queue that went through the middleware.
+   */
+  private writePendingEntries(): void {
+    let pending = this.pendingEntries[0];
+    while (pending?.processed) {
+      this.pendingEntries.shift();
+
+      if (pending.dropped) {
+        pending.written?.();
+      } else {
+        const write = this.write(pending.entry);
+        this.track(write);
+        pending.written?.(write);
+      }
+
+      pending = this.pendingEntries[0];
+    }
+  }
+
+  private track(write: Promise<void>): void {
+    this.pendingWrites.add(write);
+    void write.finally(() => this.pendingWrites.delete(write));
+  }
+}
+
+/**
+ * @internal
+ */
+interface PendingEntry {
+  entry: LogEntry;
+  processed: boolean; // went through the middleware
+  dropped: boolean; // by a middleware not calling next()
+  written?: (write?: Promise<void>) => void; // resolves the pending write tracked by idle()
+}
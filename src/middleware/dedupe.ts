@@ -0,0 +1,79 @@
+import { LogEntry } from '../types/log-entry.interface.js';
+import { LogMiddleware } from '../types/log-middleware.type.js';
+import { DedupeOptions } from '../types/middleware/dedupe-options.interface.js';
+
+interface Occurrence {
+  entry: LogEntry;
+  repeated: number;
+  last: Date;
+  report: () => void; // emits the pending follow-up entry
+}
+
+/**
+ * Creates a middleware collapsing repeated entries. The first entry with a given level,
+ * message and error name is passed on immediately; identical entries within the window are
+ * dropped and reported by a single follow-up entry when the window closes, or when the
+ * logger is flushed or closed.
+ * @param options - Window and level settings.
+ * @example
+ * logger.use(dedupe({ window: 10000 }));
+ * // ERROR Connection refused
+ * // ERROR Connection refused (repeated 4,213 times in 10s)
+ */
+export function dedupe(options: DedupeOptions = {}): LogMiddleware {
+  const window = options.window ?? 10000;
+  const occurrences = new Map<string, Occurrence>();
+
+  const middleware: LogMiddleware = (entry, next, emit) => {
+    if (options.levels && !options.levels.includes(entry.level)) return next();
+
+    const key = `${entry.level}|${entry.message}|${entry.error?.name ?? ''}`;
+    const occurrence = occurrences.get(key);
+
+    if (occurrence) {
+      occurrence.repeated++;
+      occurrence.last = entry.timestamp;
+      return;
+    }
+
+    const report = () => {
+      clearTimeout(timer);
+      const closed = occurrences.get(key);
+      occurrences.delete(key);
+      if (closed && closed.repeated > 0) emit(summarize(closed, window));
+    };
+    const timer = setTimeout(report, window);
+    timer.unref();
+
+    occurrences.set(key, { entry, repeated: 0, last: entry.timestamp, report });
+    next();
+  };
+
+  middleware.flush = () => {
+    for (const occurrence of occurrences.values()) occurrence.report();
+  };
+
+  return middleware;
+}
+
+/**
+ * Builds the follow-up entry reporting repetitions.
+ * @internal
+ */
+function summarize(occurrence: Occurrence, window: number): LogEntry {
+  const { entry, repeated, last } = occurrence;
+  const count = repeated.toLocaleString('en-US');
+  const duration = window % 1000 === 0 ? `${window / 1000}s` : `${window}ms`;
+
+  return {
+    ...entry,
+    message: `${entry.message} (repeated ${count} times in ${duration})`,
+    timestamp: new Date(),
+    context: {
+      ...entry.context,
+      repeated,
+      firstTimestamp: entry.timestamp.toISOString(),
+      lastTimestamp: last.toISOString(),
+    },
+  };
+}
@@ -0,0 +1,4 @@
+export * from './sampling.js';
+export * from './rate-limit.js';
+export * from './dedupe.js';
+export * from './redact.js';
@@ -0,0 +1,117 @@
+/* globals NodeJS */
+import { LogLevel } from '../types/enums/log-level.enum.js';
+import { LogEntry } from '../types/log-entry.interface.js';
+import { LogMiddleware } from '../types/log-middleware.type.js';
+import { RateLimitOptions } from '../types/middleware/rate-limit-options.interface.js';
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+  suppressed: number;
+  timer?: NodeJS.Timeout;
+  report?: () => void; // emits the pending summary
+}
+
+/**
+ * Creates a token bucket middleware limiting how often each message template is logged.
+ * Entries over the limit are dropped, and once per interval a summary entry reports how
+ * many entries of that template were suppressed. Buckets of idle templates are swept every
+ * interval, and at most `maxKeys` templates are tracked, the least recently seen being
+ * forgotten first. Pending summaries are emitted right away when the logger is flushed or closed.
+ * @param options - Rate limiting options.
+ * @example
+ * logger.use(rateLimit({ limit: 10, interval: 1000 })); // 10 identical messages per second
+ */
+export function rateLimit(options: RateLimitOptions): LogMiddleware {
+  const interval = options.interval ?? 1000;
+  const capacity = options.burst ?? options.limit;
+  const refillRate = options.limit / interval;
+  const summaryLevel = options.summaryLevel ?? LogLevel.WARN;
+  const maxKeys = options.maxKeys ?? 10000;
+  const buckets = new Map<string, Bucket>();
+  let sweeper: NodeJS.Timeout | undefined;
+
+  // Forgets full buckets without a pending summary, they are recreated identically
+  const sweep = () => {
+    const now = Date.now();
+    for (const [key, bucket] of buckets) {
+      if (!bucket.timer && bucket.tokens + (now - bucket.updatedAt) * refillRate >= capacity) {
+        buckets.delete(key);
+      }
+    }
+    if (buckets.size === 0) {
+      clearInterval(sweeper);
+      sweeper = undefined;
+    }
+  };
+
+  const middleware: LogMiddleware = (entry, next, emit) => {
+    if (options.levels && !options.levels.includes(entry.level)) return next();
+
+    const key = `${entry.level}:${entry.message}`;
+    const now = Date.now();
+    let bucket = buckets.get(key);
+
+    if (!bucket) {
+      bucket = { tokens: capacity, updatedAt: now, suppressed: 0 };
+      const oldest = buckets.size >= maxKeys ? buckets.keys().next() : undefined;
+      if (oldest && !oldest.done) buckets.delete(oldest.value);
+      if (!sweeper) {
+        sweeper = setInterval(sweep, interval);
+        sweeper.unref();
+      }
+    } else {
+      bucket.tokens = Math.min(capacity, bucket.tokens + (now - bucket.updatedAt) * refillRate);
+      bucket.updatedAt = now;
+      // Map order is insertion order: moving the bucket to the end keeps it least recent first
+      buckets.delete(key);
+    }
+    buckets.set(key, bucket);
+
+    if (bucket.tokens >= 1) {
+      bucket.tokens--;
+      next();
+      return;
+    }
+
+    bucket.suppressed++;
+    if (bucket.timer) return;
+
+    const template = entry;
+    const current = bucket;
+    current.report = () => {
+      clearTimeout(current.timer);
+      delete current.timer;
+      delete current.report;
+      emit(summarize(template, current.suppressed, interval, summaryLevel));
+      current.suppressed = 0;
+    };
+    current.timer = setTimeout(current.report, interval);
+    current.timer.unref();
+  };
+
+  middleware.flush = () => {
+    for (const bucket of buckets.values()) bucket.report?.();
+  };
+
+  return middleware;
+}
+
+/**
+ * Builds the summary entry reporting suppressed entries.
+ * @internal
+ */
+function summarize(template: LogEntry, count: number, interval: number, level: LogLevel): LogEntry {
+  return {
+    level,
+    message: `Suppressed ${count} messages: ${template.message}`,
+    timestamp: new Date(),
+    context: {
+      suppressed: count,
+      template: template.message,
+      level: LogLevel[template.level],
+      interval,
+    },
+    ...(template.meta && { meta: template.meta }),
+  };
+}
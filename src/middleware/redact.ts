@@ -0,0 +1,23 @@
+import { createRedactor } from '../redaction/index.js';
+import { LogMiddleware } from '../types/log-middleware.type.js';
+import { RedactionOptions } from '../types/redaction/redaction-options.interface.js';
+
+/**
+ * Creates a middleware redacting the message, context, metadata and error of every entry
+ * with `createRedactor`.
+ * @param options - Redaction rules and replacement settings.
+ * @example
+ * logger.use(
+ *   redact({
+ *     paths: ['context.password', '*.headers.authorization'],
+ *     patterns: [redactionPatterns.creditCard, redactionPatterns.bearerToken],
+ *   })
+ * );
+ */
+export function redact(options: RedactionOptions): LogMiddleware {
+  const redactEntry = createRedactor(options);
+  return (entry, next) => {
+    redactEntry(entry);
+    next();
+  };
+}
@@ -0,0 +1,47 @@
+import { LogLevel } from '../types/enums/log-level.enum.js';
+import { LogMiddleware } from '../types/log-middleware.type.js';
+
+/**
+ * Creates a middleware keeping a random fraction of the entries of each level.
+ * Levels without a rate are always kept.
+ * @param rates - Probability (0 to 1) of keeping an entry, per level, or one rate for all levels.
+ * @example
+ * logger.use(sample({ [LogLevel.TRACE]: 0.01, [LogLevel.DEBUG]: 0.1 }));
+ */
+export function sample(rates: Partial<Record<LogLevel, number>> | number): LogMiddleware {
+  return (entry, next) => {
+    const rate = typeof rates === 'number' ? rates : rates[entry.level];
+    if (rate === undefined || Math.random() < rate) next();
+  };
+}
+
+/**
+ * Creates a middleware keeping a deterministic fraction of entries, keyed by a metadata field.
+ * All entries sharing the same value (e.g. a `requestId`) are either kept or dropped together.
+ * Entries without the field are always kept.
+ * @param field - The `entry.meta` field to hash.
+ * @param rate - Fraction (0 to 1) of field values to keep.
+ * @param levels - Levels subject to sampling, defaults to all levels.
+ */
+export function sampleBy(field: string, rate: number, levels?: LogLevel[]): LogMiddleware {
+  return (entry, next) => {
+    const value = entry.meta?.[field];
+    if (value === undefined || (levels && !levels.includes(entry.level))) return next();
+
+    const key = typeof value === 'string' ? value : JSON.stringify(value);
+    if (hash(key) / 0x100000000 < rate) next();
+  };
+}
+
+/**
+ * FNV-1a 32-bit hash, used for stable sampling decisions across processes.
+ * @internal
+ */
+function hash(value: string): number {
+  let result = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    result ^= value.charCodeAt(i);
+    result = Math.imul(result, 0x01000193);
+  }
+  return result >>> 0;
+}
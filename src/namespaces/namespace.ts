@@ -0,0 +1,85 @@
+import { LogLevel } from '../types/enums/log-level.enum.js';
+import { NamespaceRule } from '../types/namespaces/namespace-rule.interface.js';
+
+const SEPARATOR = /[.:]/;
+
+/**
+ * Lists a logger name and its ancestors in the namespace hierarchy, `.` and `:` separating
+ * the levels of the hierarchy.
+ * @param name - A logger name, e.g. `api.db.pool` or `app:http`.
+ * @returns The ancestors from the root down, the name itself last, e.g.
+ * `['api', 'api.db', 'api.db.pool']`.
+ */
+export function namespaceAncestors(name: string): string[] {
+  const ancestors: string[] = [];
+  for (let index = 0; index < name.length; index++) {
+    if (index > 0 && SEPARATOR.test(name.charAt(index))) ancestors.push(name.slice(0, index));
+  }
+  ancestors.push(name);
+  return ancestors;
+}
+
+/**
+ * Parses namespace rules in the style of the `DEBUG` environment variable: patterns separated
+ * by commas or spaces, `*` matching any characters. A pattern enables the matching loggers at
+ * the level following `=` (`debug` when omitted), a `-` prefix silences them.
+ * @param spec - The rules, e.g. `api.*=debug,-api.db.*`, or a list of rules.
+ * @throws Error when a rule has an unknown level.
+ * @example
+ * parseNamespaceRules('app:*,-app:health');
+ */
+export function parseNamespaceRules(spec: string | string[]): NamespaceRule[] {
+  const rules = Array.isArray(spec) ? spec : [spec];
+
+  return rules
+    .flatMap(rule => rule.split(/[\s,]+/))
+    .filter(Boolean)
+    .map(rule => {
+      const exclude = rule.startsWith('-');
+      const [pattern = '', levelName] = rule.slice(exclude ? 1 : 0).split('=');
+      if (levelName === undefined) return { pattern, exclude, level: LogLevel.DEBUG };
+
+      const level = LogLevel[levelName.toUpperCase() as keyof typeof LogLevel] as
+        | LogLevel
+        | undefined;
+      if (exclude || typeof level !== 'number') {
+        throw new Error(
+          exclude
+            ? `Invalid namespace rule "${rule}": excluding rules take no level`
+            : `Invalid namespace rule "${rule}": unknown level "${levelName}"`
+        );
+      }
+      return { pattern, exclude, level };
+    });
+}
+
+/**
+ * Tests whether a logger name matches a namespace pattern.
+ * @param name - The logger name.
+ * @param pattern - A namespace where `*` matches any characters; `.` and `:` match either one.
+ */
+export function matchNamespace(name: string, pattern: string): boolean {
+  const source = pattern
+    .split('*')
+    .map(part => part.replace(/[|\\{}()[\]^$+?]/g, '\\$&').replace(/[.:]/g, '[.:]'))
+    .join('.*');
+  return new RegExp(`^${source}$`).test(name);
+}
+
+/**
+ * Applies namespace rules to a logger name. An excluding rule silences the logger whatever
+ * the order; otherwise the last matching rule enables it at its level.
+ * @param name - The logger name.
+ * @param rules - Rules returned by `parseNamespaceRules`.
+ * @returns The settings the rules impose, empty when no rule matches.
+ */
+export function resolveNamespace(
+  name: string,
+  rules: NamespaceRule[]
+): { level?: LogLevel; silent?: boolean } {
+  const matching = rules.filter(rule => matchNamespace(name, rule.pattern));
+  if (matching.some(rule => rule.exclude)) return { silent: true };
+
+  const rule = matching[matching.length - 1];
+  return rule ? { level: rule.level, silent: false } : {};
+}
@@ -0,0 +1,48 @@
+import { RedactionPatternRule } from '../types/redaction/redaction-options.interface.js';
+
+/**
+ * Built-in patterns for common sensitive values, to use in `RedactionOptions.patterns`.
+ * @example
+ * createRedactor({
+ *   patterns: [redactionPatterns.creditCard, { ...redactionPatterns.email, strategy: 'hash' }],
+ * });
+ */
+export const redactionPatterns = {
+  /** Card numbers of 13 to 19 digits, optionally grouped, passing the Luhn checksum */
+  creditCard: {
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/,
+    validate: luhn,
+  },
+  /** Email addresses */
+  email: {
+    pattern: /[\w.+-]+@[a-z\d-]+(?:\.[a-z\d-]+)*\.[a-z]{2,}/i,
+  },
+  /** JSON Web Tokens */
+  jwt: {
+    pattern: /\beyJ[\w-]*\.[\w-]+\.[\w-]*/,
+  },
+  /** Bearer tokens of `Authorization` headers */
+  bearerToken: {
+    pattern: /\bBearer\s+[\w.~+/-]+=*/i,
+  },
+} satisfies Record<string, RedactionPatternRule>;
+
+/**
+ * Luhn checksum of a card number.
+ * @internal
+ */
+function luhn(match: string): boolean {
+  const digits = match.replace(/\D/g, '');
+  let sum = 0;
+
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+
+  return sum % 10 === 0;
+}
@@ -0,0 +1,172 @@
+import { createHash } from 'crypto';
+import { safeStringify } from '../serializers/index.js';
+import { LogEntry } from '../types/log-entry.interface.js';
+import {
+  RedactionOptions,
+  RedactionStrategy,
+} from '../types/redaction/redaction-options.interface.js';
+
+const REMOVED = Symbol('removed');
+
+interface CompiledPath {
+  segments: string[];
+  strategy: RedactionStrategy;
+}
+
+interface CompiledPattern {
+  regex: RegExp;
+  strategy: RedactionStrategy;
+  validate: ((match: string) => boolean) | undefined;
+}
+
+/**
+ * Creates a function redacting the message, context, metadata and error of log entries.
+ *
+ * Paths start with the part of the entry (`message`, `context`, `meta` or `error`) and are
+ * matched case-insensitively; `*` matches any single key or array index and `**` any number
+ * of them. Patterns are matched against every string value, including the message and the
+ * error message and stack.
+ *
+ * The entry gets redacted copies of plain objects, arrays and errors, so that the values
+ * passed by callers are not modified; other class instances are kept as they are.
+ * @param options - Redaction rules and replacement settings.
+ * @example
+ * const redact = createRedactor({
+ *   paths: ['context.user.card.number', '*.headers.authorization'],
+ *   patterns: [redactionPatterns.creditCard, redactionPatterns.jwt],
+ *   strategy: 'partial',
+ * });
+ * redact(entry);
+ */
+export function createRedactor(options: RedactionOptions): (entry: LogEntry) => void {
+  const defaultStrategy = options.strategy ?? 'mask';
+  const mask = options.mask ?? '[REDACTED]';
+  const visibleChars = options.visibleChars ?? 4;
+
+  const paths: CompiledPath[] = (options.paths ?? []).map(rule => {
+    const { path, strategy } =
+      typeof rule === 'string' ? { path: rule, strategy: undefined } : rule;
+    return { segments: path.toLowerCase().split('.'), strategy: strategy ?? defaultStrategy };
+  });
+  const patterns: CompiledPattern[] = (options.patterns ?? []).map(rule => {
+    const { pattern, strategy, validate } = rule instanceof RegExp ? { pattern: rule } : rule;
+    const flags = pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`;
+    return {
+      regex: new RegExp(pattern.source, flags),
+      strategy: strategy ?? defaultStrategy,
+      validate,
+    };
+  });
+
+  const replace = (value: unknown, strategy: RedactionStrategy): unknown => {
+    if (typeof strategy === 'function') return strategy(value);
+
+    const text = typeof value === 'string' ? value : safeStringify(value);
+    switch (strategy) {
+      case 'remove':
+        return REMOVED;
+      case 'hash':
+        return `sha256:${createHash('sha256').update(text).digest('hex').slice(0, 16)}`;
+      case 'partial':
+        return text.length > visibleChars ? `****${text.slice(-visibleChars)}` : mask;
+      default:
+        return mask;
+    }
+  };
+
+  const redactString = (text: string): string =>
+    patterns.reduce(
+      (redacted, { regex, strategy, validate }) =>
+        redacted.replace(regex, match => {
+          if (validate && !validate(match)) return match;
+          const replacement = replace(match, strategy);
+          return replacement === REMOVED ? '' : String(replacement);
+        }),
+      text
+    );
+
+  // `copies` maps the objects being redacted to their copies, so that circular references
+  // point to the copies rather than to the original values
+  const redactValue = (value: unknown, path: string[], copies: Map<object, object>): unknown => {
+    const rule = paths.find(({ segments }) => matchesPath(segments, path));
+    if (rule) return replace(value, rule.strategy);
+
+    if (typeof value === 'string') return redactString(value);
+    if (typeof value !== 'object' || value === null) return value;
+    if (copies.has(value)) return copies.get(value);
+
+    if (Array.isArray(value)) {
+      const redacted: unknown[] = [];
+      copies.set(value, redacted);
+      value.forEach((item, index) => {
+        const result = redactValue(item, [...path, String(index)], copies);
+        if (result !== REMOVED) redacted.push(result);
+      });
+      copies.delete(value);
+      return redacted;
+    }
+
+    // Errors keep their prototype, so that their class and instanceof checks are kept; other
+    // class instances are left as they are
+    const isError = value instanceof Error;
+    const prototype = Object.getPrototypeOf(value) as object | null;
+    if (!isError && prototype !== Object.prototype && prototype !== null) return value;
+
+    const redacted = Object.create(isError ? prototype : Object.prototype) as object;
+    copies.set(value, redacted);
+    for (const [key, descriptor] of Object.entries(Object.getOwnPropertyDescriptors(value))) {
+      // The message, stack and cause of errors are not enumerable
+      if (!descriptor.enumerable && !isError) continue;
+
+      if ('value' in descriptor) {
+        const result = redactValue(descriptor.value, [...path, key.toLowerCase()], copies);
+        if (result !== REMOVED) {
+          Object.defineProperty(redacted, key, { ...descriptor, value: result });
+        }
+      } else {
+        Object.defineProperty(redacted, key, descriptor);
+      }
+    }
+    copies.delete(value);
+
+    if (isError) fixStack(value, redacted as Error);
+    return redacted;
+  };
+
+  // The stack starts with the message, which a path rule may have redacted
+  const fixStack = (error: Error, copy: Error): void => {
+    if (typeof copy.stack === 'string' && copy.message !== error.message) {
+      copy.stack = copy.stack.replace(redactString(error.message), copy.message);
+    }
+  };
+
+  return entry => {
+    const copies = new Map<object, object>();
+
+    const message = redactValue(entry.message, ['message'], copies);
+    entry.message = message === REMOVED ? '' : String(message);
+
+    for (const key of ['context', 'meta', 'error'] as const) {
+      if (entry[key] === undefined) continue;
+      const value = redactValue(entry[key], [key], copies);
+      if (value === REMOVED) {
+        delete entry[key];
+      } else {
+        (entry as unknown as Record<string, unknown>)[key] = value;
+      }
+    }
+  };
+}
+
+/**
+ * Whether a path matches a rule, `*` matching one segment and `**` any number of them.
+ * @internal
+ */
+function matchesPath(segments: string[], path: string[]): boolean {
+  const [head, ...rest] = segments;
+  if (head === undefined) return path.length === 0;
+  if (head === '**') {
+    return matchesPath(rest, path) || (path.length > 0 && matchesPath(segments, path.slice(1)));
+  }
+  return path.length > 0 && (head === '*' || head === path[0]) && matchesPath(rest, path.slice(1));
+}
@@ -0,0 +1,111 @@
+import {
+  ErrorSerializer,
+  SerializedError,
+} from '../types/serializers/serialized-error.interface.js';
+
+const CIRCULAR = '[Circular]';
+
+// Error classes have no common constructor signature
+type ErrorClass<E extends Error> = abstract new (...args: never[]) => E;
+
+const serializers = new Map<object, ErrorSerializer>();
+
+/**
+ * Registers the serializer of an error class, also used for its subclasses unless they
+ * have their own.
+ * @param errorClass - The error class, e.g. `AxiosError`.
+ * @param serializer - Receives the error and its default serialization.
+ * @example
+ * registerErrorSerializer(HttpError, (error, serialized) => ({
+ *   ...serialized,
+ *   url: error.request.url,
+ *   request: undefined,
+ * }));
+ */
+export function registerErrorSerializer<E extends Error>(
+  errorClass: ErrorClass<E>,
+  serializer: ErrorSerializer<E>
+): void {
+  serializers.set(errorClass.prototype as object, serializer as ErrorSerializer);
+}
+
+/**
+ * Removes the serializer registered for an error class.
+ * @param errorClass - The error class.
+ */
+export function unregisterErrorSerializer(errorClass: ErrorClass<Error>): void {
+  serializers.delete(errorClass.prototype as object);
+}
+
+/**
+ * Converts an error to a plain object with its name, message, stack, own enumerable
+ * properties (e.g. `code`, `statusCode`), `cause` chain and `AggregateError` errors.
+ * Nested errors are serialized the same way and repeated references become `"[Circular]"`.
+ * @param error - The error to serialize.
+ */
+export function serializeError(error: Error): SerializedError {
+  return serialize(error, new Set());
+}
+
+/**
+ * @internal
+ */
+function serialize(error: Error, seen: Set<object>): SerializedError {
+  seen.add(error);
+
+  const serialized: SerializedError = { name: error.name, message: error.message };
+  if (error.stack !== undefined) serialized.stack = error.stack;
+
+  for (const [key, value] of Object.entries(error)) {
+    if (key !== 'cause' && key !== 'errors') serialized[key] = serializeValue(value, seen);
+  }
+  // Both are usually own non-enumerable properties
+  const { cause, errors } = error as Error & { cause?: unknown; errors?: unknown };
+  if (cause !== undefined) serialized.cause = serializeValue(cause, seen);
+  if (Array.isArray(errors)) serialized.errors = errors.map(value => serializeValue(value, seen));
+
+  seen.delete(error);
+
+  const serializer = findSerializer(error);
+  return serializer ? serializer(error, serialized) : serialized;
+}
+
+/**
+ * Serializes nested errors and replaces references to an enclosing object by `"[Circular]"`.
+ * @internal
+ */
+function serializeValue(value: unknown, seen: Set<object>): unknown {
+  if (typeof value !== 'object' || value === null) return value;
+  if (seen.has(value)) return CIRCULAR;
+  if (value instanceof Error) return serialize(value, seen);
+
+  const isArray = Array.isArray(value);
+  const prototype = Object.getPrototypeOf(value) as unknown;
+  if (!isArray && prototype !== Object.prototype && prototype !== null) return value;
+
+  seen.add(value);
+  const result = isArray
+    ? value.map(item => serializeValue(item, seen))
+    : Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, serializeValue(item, seen)])
+      );
+  seen.delete(value);
+
+  return result;
+}
+
+/**
+ * Finds the serializer of the closest registered class in the error's prototype chain.
+ * @internal
+ */
+function findSerializer(error: Error): ErrorSerializer | undefined {
+  if (serializers.size === 0) return undefined;
+
+  let prototype = Object.getPrototypeOf(error) as object | null;
+  while (prototype) {
+    const serializer = serializers.get(prototype);
+    if (serializer) return serializer;
+    prototype = Object.getPrototypeOf(prototype) as object | null;
+  }
+  return undefined;
+}
@@ -0,0 +1,46 @@
+import { SerializedError } from '../types/serializers/serialized-error.interface.js';
+import { safeStringify } from './safe-serializer.js';
+
+const STANDARD_PROPERTIES = new Set(['name', 'message', 'stack', 'cause', 'errors']);
+
+/**
+ * Renders a serialized error as text: its stack, extra properties as JSON, then the errors
+ * of an `AggregateError` and the `cause` chain.
+ * @param error - The serialized error.
+ */
+export function formatErrorText(error: SerializedError): string {
+  const { name, message, stack, cause, errors } = error;
+  const properties = errorProperties(error);
+  let text = stack ?? `${name}: ${message}`;
+
+  if (Object.keys(properties).length > 0) {
+    text += `\n    ${safeStringify(properties)}`;
+  }
+
+  errors?.forEach((nested, index) => {
+    const nestedText = isSerializedError(nested) ? formatErrorText(nested) : String(nested);
+    text += `\n  [${index}] ${nestedText.split('\n').join('\n  ')}`;
+  });
+
+  if (cause !== undefined) {
+    text += `\nCaused by: ${isSerializedError(cause) ? formatErrorText(cause) : safeStringify(cause)}`;
+  }
+
+  return text;
+}
+
+/**
+ * Returns the properties of a serialized error other than its name, message, stack, cause
+ * and errors.
+ * @param error - The serialized error.
+ */
+export function errorProperties(error: SerializedError): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(error).filter(([key]) => !STANDARD_PROPERTIES.has(key)));
+}
+
+/**
+ * @internal
+ */
+function isSerializedError(value: unknown): value is SerializedError {
+  return typeof value === 'object' && value !== null && 'name' in value && 'message' in value;
+}
@@ -0,0 +1,3 @@
+export * from './error-serializer.js';
+export * from './error-text.js';
+export * from './safe-serializer.js';
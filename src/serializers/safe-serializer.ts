@@ -0,0 +1,125 @@
+import { SerializeOptions } from '../types/serializers/serialize-options.interface.js';
+import { serializeError } from './error-serializer.js';
+
+const CIRCULAR = '[Circular]';
+
+const DEFAULT_OPTIONS: Required<SerializeOptions> = {
+  maxDepth: 10,
+  maxArrayLength: 100,
+  maxStringLength: 10000,
+};
+
+/**
+ * Converts a value to data `JSON.stringify` can always handle:
+ * - references to an enclosing object become `"[Circular]"`
+ * - BigInts and symbols become strings, functions `"[Function: name]"`
+ * - Maps become objects, Sets arrays, errors go through `serializeError`
+ * - Buffers and other binary data become `"[Buffer: 12 bytes]"`
+ * - objects with a `toJSON` method are replaced by its result
+ *
+ * Objects nested deeper than `maxDepth` are replaced by `"[Object]"` / `"[Array]"`, and long
+ * arrays and strings are truncated with a marker such as `"... 42 more items"`.
+ * @param value - The value to convert.
+ * @param options - Depth and size limits.
+ */
+export function toSerializable(value: unknown, options: SerializeOptions = {}): unknown {
+  return convert(value, '', 0, { ...DEFAULT_OPTIONS, ...options }, new Set());
+}
+
+/**
+ * `JSON.stringify` that never throws, converting the value with `toSerializable` first.
+ * @param value - The value to stringify.
+ * @param options - Depth and size limits.
+ * @param space - Indentation, as for `JSON.stringify`.
+ */
+export function safeStringify(
+  value: unknown,
+  options: SerializeOptions = {},
+  space?: number
+): string {
+  return JSON.stringify(toSerializable(value, options), null, space);
+}
+
+/**
+ * @internal
+ */
+function convert(
+  value: unknown,
+  key: string,
+  depth: number,
+  options: Required<SerializeOptions>,
+  ancestors: Set<object>
+): unknown {
+  switch (typeof value) {
+    case 'string':
+      return truncate(value, options.maxStringLength);
+    case 'bigint':
+    case 'symbol':
+      return value.toString();
+    case 'function':
+      return `[Function: ${value.name || 'anonymous'}]`;
+    case 'object':
+      break;
+    default:
+      return value;
+  }
+
+  if (value === null) return null;
+  if (ancestors.has(value)) return CIRCULAR;
+  if (ArrayBuffer.isView(value)) return `[${value.constructor.name}: ${value.byteLength} bytes]`;
+  if (value instanceof ArrayBuffer) return `[ArrayBuffer: ${value.byteLength} bytes]`;
+
+  const isArray = Array.isArray(value) || value instanceof Set;
+  if (depth >= options.maxDepth) return isArray ? '[Array]' : '[Object]';
+
+  ancestors.add(value);
+  try {
+    const next = (item: unknown, itemKey: string) =>
+      convert(item, itemKey, depth + 1, options, ancestors);
+
+    if (value instanceof Error) {
+      return convert(serializeError(value), key, depth, options, ancestors);
+    }
+    if (hasToJSON(value)) {
+      // The result is converted at the same depth, e.g. a Date becomes its ISO string
+      return convert(value.toJSON(key), key, depth, options, ancestors);
+    }
+    if (isArray) {
+      const items = [...value];
+      const converted = items
+        .slice(0, options.maxArrayLength)
+        .map((item, index) => next(item, String(index)));
+      const omitted = items.length - options.maxArrayLength;
+      if (omitted > 0) converted.push(`... ${omitted} more item${omitted === 1 ? '' : 's'}`);
+      return converted;
+    }
+
+    const entries = value instanceof Map ? [...value] : Object.entries(value);
+    return Object.fromEntries(
+      entries.map(([entryKey, item]: [unknown, unknown]) => {
+        const name = typeof entryKey === 'string' ? entryKey : String(entryKey);
+        return [name, next(item, name)];
+      })
+    );
+  } catch (error) {
+    // e.g. a throwing getter or toJSON method
+    return `[Unserializable: ${error instanceof Error ? error.message : String(error)}]`;
+  } finally {
+    ancestors.delete(value);
+  }
+}
+
+/**
+ * @internal
+ */
+function truncate(text: string, maxLength: number): string {
+  if (text.length <= maxLength) return text;
+  return `${text.slice(0, maxLength)}... [${text.length - maxLength} more characters]`;
+}
+
+/**
+ * @internal
+ */
+function hasToJSON(value: object): value is { toJSON(key: string): unknown } {
+  return typeof (value as { toJSON?: unknown }).toJSON === 'function';
+}
@@ -0,0 +1,92 @@
+/* globals NodeJS */
+import { constants } from 'os';
+import { inspect } from 'util';
+import { LoggerFactory, defaultLogger } from '../factory.js';
+import { LogLevel } from '../types/enums/log-level.enum.js';
+import { ExitHandlerOptions } from '../types/shutdown/exit-handler-options.interface.js';
+
+/**
+ * Registers process handlers that flush and close loggers before the process exits:
+ * - `beforeExit`: closes the loggers and lets the process exit on its own
+ * - signals (`SIGINT`, `SIGTERM` by default): logs the signal, closes the loggers and exits
+ *   with `128 + signal number`; a second signal exits immediately
+ * - `uncaughtException`, `unhandledRejection`: logs a `FATAL` entry, closes the loggers and
+ *   exits with code 1
+ *
+ * Loggers are given `timeout` milliseconds to close before the process exits anyway.
+ * @param options - Logger, factory, timeout and signal settings.
+ * @returns A function removing the handlers.
+ * @example
+ * const logger = LoggerFactory.getInstance().get('api');
+ * handleExit({ logger, timeout: 3000 });
+ */
+export function handleExit(options: ExitHandlerOptions = {}): () => void {
+  const logger = options.logger ?? defaultLogger;
+  const factory = options.factory ?? LoggerFactory.getInstance();
+  const timeout = options.timeout ?? 5000;
+  const signals = options.signals ?? ['SIGINT', 'SIGTERM'];
+
+  let shutdown: Promise<void> | undefined;
+
+  const closeLoggers = (): Promise<void> => {
+    shutdown ??= (async () => {
+      let timer: NodeJS.Timeout | undefined;
+      const expired = new Promise<void>(resolve => {
+        timer = setTimeout(() => {
+          console.error(`Loggers did not close within ${timeout}ms, exiting`);
+          resolve();
+        }, timeout);
+      });
+
+      // The logger may not belong to the factory, flush it on its own
+      const close = logger.flush().then(() => factory.closeAll());
+      await Promise.race([close, expired]);
+      clearTimeout(timer);
+    })();
+    return shutdown;
+  };
+
+  const exit = (code: number) => {
+    void closeLoggers().then(() => process.exit(code));
+  };
+
+  const onBeforeExit = () => {
+    // Closing may schedule work, after which beforeExit fires again
+    if (!shutdown) void closeLoggers();
+  };
+
+  const onSignal = (signal: NodeJS.Signals) => {
+    const code = 128 + ((constants.signals[signal] as number | undefined) ?? 0);
+
+    if (shutdown) {
+      // A second signal while closing exits immediately
+      process.exit(code);
+    } else {
+      logger.info(`Received ${signal}, shutting down`, { signal });
+      exit(code);
+    }
+  };
+
+  const onUncaughtException = (error: Error) => {
+    logger.log(LogLevel.FATAL, 'Uncaught exception', undefined, error);
+    exit(1);
+  };
+
+  const onUnhandledRejection = (reason: unknown) => {
+    const error = reason instanceof Error ? reason : new Error(inspect(reason));
+    logger.log(LogLevel.FATAL, 'Unhandled promise rejection', undefined, error);
+    exit(1);
+  };
+
+  process.on('beforeExit', onBeforeExit);
+  process.on('uncaughtException', onUncaughtException);
+  process.on('unhandledRejection', onUnhandledRejection);
+  for (const signal of signals) process.on(signal, onSignal);
+
+  return () => {
+    process.removeListener('beforeExit', onBeforeExit);
+    process.removeListener('uncaughtException', onUncaughtException);
+    process.removeListener('unhandledRejection', onUnhandledRejection);
+    for (const signal of signals) process.removeListener(signal, onSignal);
+  };
+}
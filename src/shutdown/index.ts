@@ -0,0 +1 @@
+export * from './exit-handler.js';
@@ -0,0 +1,47 @@
+import { randomBytes } from 'crypto';
+import { TraceContext } from '../types/trace-context.interface.js';
+
+const TRACEPARENT = /^([\da-f]{2})-([\da-f]{32})-([\da-f]{16})-([\da-f]{2})(?:-.*)?$/;
+const INVALID_TRACE_ID = '0'.repeat(32);
+const INVALID_SPAN_ID = '0'.repeat(16);
+
+/**
+ * Parses a W3C `traceparent` header.
+ * @param header - The header value, e.g. `00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01`.
+ * @returns The trace context, or `undefined` if the header is missing or invalid.
+ */
+export function parseTraceparent(header: string | string[] | undefined): TraceContext | undefined {
+  const value = Array.isArray(header) ? header[0] : header;
+  const match = value ? TRACEPARENT.exec(value.trim().toLowerCase()) : null;
+  if (!match) return undefined;
+
+  const [, version = '', traceId = '', spanId = '', flags = ''] = match;
+  // Version 00 allows no trailing fields, ff is forbidden
+  if (version === 'ff' || (version === '00' && value?.trim().length !== 55)) return undefined;
+  if (traceId === INVALID_TRACE_ID || spanId === INVALID_SPAN_ID) return undefined;
+
+  return { traceId, spanId, traceFlags: parseInt(flags, 16) };
+}
+
+/**
+ * Formats a trace context as a W3C `traceparent` header value.
+ * @param context - The trace context to format.
+ */
+export function formatTraceparent(context: TraceContext): string {
+  const flags = (context.traceFlags ?? 0).toString(16).padStart(2, '0');
+  return `00-${context.traceId}-${context.spanId}-${flags}`;
+}
+
+/**
+ * Generates a random 16-byte trace ID.
+ */
+export function generateTraceId(): string {
+  return randomBytes(16).toString('hex');
+}
+
+/**
+ * Generates a random 8-byte span ID.
+ */
+export function generateSpanId(): string {
+  return randomBytes(8).toString('hex');
+}
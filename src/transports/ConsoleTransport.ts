@@ -1,8 +1,10 @@
 import { ConsoleFormatter, JsonFormatter } from '../formatters/index.js';
 import { LogLevel } from '../types/enums/log-level.enum.js';
+import { LogFormatter } from '../types/formatters/log-formatter.interface.js';
 import { LogTransport } from '../types/transports/log-transport.interface.js';
 import { ConsoleTransportConfig } from '../types/transports/console-transport.config.js';
 import { LogEntry } from '../types/log-entry.interface.js';
+import { applyRoutingOptions } from '../utils/index.js';
 
 /**
  * Console transport for outputting logs to stdout/stderr
@@ -10,12 +12,15 @@ import { LogEntry } from '../types/log-entry.interface.js';
 export class ConsoleTransport implements LogTransport {
   name = 'console';
   level: LogLevel;
-  private formatter: ConsoleFormatter | JsonFormatter;
+  private formatter: LogFormatter;
 
   constructor(config: ConsoleTransportConfig = {}) {
     this.level = config.level ?? LogLevel.INFO;
+    applyRoutingOptions(this, config);
 
-    if (config.json) {
+    if (config.formatter) {
+      this.formatter = config.formatter;
+    } else if (config.json) {
       this.formatter = new JsonFormatter();
     } else {
       const formatterConfig: { colors?: boolean; timestamp?: boolean } = {};
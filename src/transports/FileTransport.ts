@@ -1,12 +1,35 @@
+/* globals NodeJS */
+import { WriteStream, createReadStream, createWriteStream } from 'fs';
 import fs from 'fs/promises';
+import path from 'path';
+import { pipeline } from 'stream/promises';
+import { createGzip } from 'zlib';
 import { JsonFormatter, SimpleFormatter } from '../formatters/index.js';
 import { LogLevel } from '../types/enums/log-level.enum.js';
+import { LogFormatter } from '../types/formatters/log-formatter.interface.js';
 import { LogTransport } from '../types/transports/log-transport.interface.js';
 import { LogEntry } from '../types/log-entry.interface.js';
-import { FileTransportConfig } from '../types/transports/file-transport.config.js';
+import {
+  FileTransportConfig,
+  RotationFrequency,
+} from '../types/transports/file-transport.config.js';
+import { LogQuery } from '../types/log-query.interface.js';
+import { applyRoutingOptions, datedFilename, listLogFiles, queryLogFiles } from '../utils/index.js';
 
 /**
- * File transport for writing logs to files with rotation
+ * File transport for writing logs to files with rotation.
+ *
+ * Files are rotated when they would exceed `maxSize` (`app.log` becomes `app.log.1`) and,
+ * with a `frequency`, at the start of every day or hour (`app-2026-10-19.log`).
+ * Rotated files can be gzipped and are pruned by count (`maxFiles`) and age (`maxAge`).
+ *
+ * Entries are buffered and appended through a single write stream, one batch at a time, so
+ * lines keep their logging order across rotations. A batch is written once `bufferSize` bytes
+ * are buffered or `flushInterval` has elapsed; call `flush()` to write immediately.
+ *
+ * Batches wait for the stream to drain before the next one is written. While more than
+ * `maxBufferSize` bytes wait to be written, because the disk cannot keep up, new entries
+ * are dropped and counted in `getStats().dropped`.
  */
 export class FileTransport implements LogTransport {
   name = 'file';
@@ -14,70 +37,310 @@ export class FileTransport implements LogTransport {
   private filename: string;
   private maxSize: number;
   private maxFiles: number;
-  private formatter: SimpleFormatter | JsonFormatter;
+  private maxAge: number | undefined;
+  private frequency: RotationFrequency | undefined;
+  private compress: boolean;
+  private onRotate: FileTransportConfig['onRotate'];
+  private formatter: LogFormatter;
+  private bufferSize: number;
+  private flushInterval: number;
+  private maxBufferSize: number;
+  private buffer: BufferedLine[] = [];
+  private bufferedBytes = 0;
+  private pendingLines = 0; // buffered or being written
+  private pendingBytes = 0;
+  private dropped = 0;
+  private timer: NodeJS.Timeout | undefined;
+  private stream: WriteStream | undefined;
+  private writing: Promise<void>;
+  private currentFile: string;
   private currentSize = 0;
 
   constructor(config: FileTransportConfig) {
     this.level = config.level ?? LogLevel.INFO;
+    applyRoutingOptions(this, config);
     this.filename = config.filename;
     this.maxSize = config.maxSize ?? 10 * 1024 * 1024; // 10MB
     this.maxFiles = config.maxFiles ?? 5;
+    this.maxAge = config.maxAge;
+    this.frequency = config.frequency;
+    this.compress = config.compress ?? false;
+    this.onRotate = config.onRotate;
+    this.bufferSize = config.bufferSize ?? 64 * 1024; // 64KB
+    this.flushInterval = config.flushInterval ?? 1000;
+    this.maxBufferSize = config.maxBufferSize ?? 16 * 1024 * 1024; // 16MB
 
-    this.formatter = config.json ? new JsonFormatter() : new SimpleFormatter();
+    this.formatter =
+      config.formatter ?? (config.json ? new JsonFormatter() : new SimpleFormatter());
+
+    this.currentFile = datedFilename(this.filename, this.frequency, new Date());
+    // Resume from the size of an existing file so that restarts do not overshoot maxSize
+    this.writing = this.statSize(this.currentFile).then(size => {
+      this.currentSize = size;
+    });
   }
 
-  async log(entry: LogEntry): Promise<void> {
+  log(entry: LogEntry): void {
     if (entry.level < this.level) return;
 
-    const formatted = `${this.formatter.format(entry)}\n`;
+    const text = `${this.formatter.format(entry)}\n`;
+    const bytes = Buffer.byteLength(text, 'utf8');
+    if (this.pendingBytes + bytes > this.maxBufferSize) {
+      this.dropped++;
+      return;
+    }
+    // The period is decided when the entry is logged, not when its batch is written
+    const file = datedFilename(this.filename, this.frequency, new Date());
+
+    this.buffer.push({ text, bytes, file });
+    this.bufferedBytes += bytes;
+    this.pendingLines++;
+    this.pendingBytes += bytes;
 
-    // Check if rotation is needed
-    if (this.currentSize + formatted.length > this.maxSize) {
-      await this.rotate();
+    if (this.bufferedBytes >= this.bufferSize) {
+      void this.flush();
+    } else if (!this.timer) {
+      this.timer = setTimeout(() => void this.flush(), this.flushInterval);
+      this.timer.unref();
     }
+  }
 
-    try {
-      await fs.appendFile(this.filename, formatted, 'utf8');
-      this.currentSize += formatted.length;
-    } catch (error) {
-      console.error('Failed to write log to file:', error);
+  /**
+   * Writes the buffered entries to the file.
+   * @returns A promise resolving once every entry logged so far has been written.
+   */
+  flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
     }
+
+    const lines = this.buffer;
+    this.buffer = [];
+    this.bufferedBytes = 0;
+
+    // Batches are chained so that they are written in order, each after the previous one
+    // reached the file; entries logged meanwhile accumulate in the buffer
+    this.writing = this.writing
+      .then(() => this.writeLines(lines))
+      .finally(() => {
+        this.pendingLines -= lines.length;
+        for (const line of lines) this.pendingBytes -= line.bytes;
+      });
+    return this.writing;
   }
 
+  /**
+   * Returns the number of entries waiting to be written and of entries dropped because
+   * `maxBufferSize` was reached.
+   */
+  getStats(): { buffered: number; dropped: number } {
+    return { buffered: this.pendingLines, dropped: this.dropped };
+  }
+
+  private async writeLines(lines: BufferedLine[]): Promise<void> {
+    let chunk = '';
+
+    for (const line of lines) {
+      // Check if rotation is needed
+      const rotatePeriod = line.file !== this.currentFile;
+      if (rotatePeriod || (this.currentSize > 0 && this.currentSize + line.bytes > this.maxSize)) {
+        await this.write(chunk);
+        await this.closeStream();
+        chunk = '';
+
+        if (rotatePeriod) {
+          await this.rotatePeriod(line.file);
+        } else {
+          await this.rotate();
+        }
+      }
+
+      chunk += line.text;
+      this.currentSize += line.bytes;
+    }
+
+    await this.write(chunk);
+  }
+
+  private async write(chunk: string): Promise<void> {
+    if (!chunk) return;
+
+    if (!this.stream) {
+      const stream = createWriteStream(this.currentFile, { flags: 'a' });
+      stream.on('error', error => {
+        console.error('Failed to write log to file:', error);
+        if (this.stream === stream) this.stream = undefined;
+      });
+      this.stream = stream;
+    }
+
+    const { stream } = this;
+    // Errors are reported by the stream's error listener
+    const written = new Promise<void>(resolve => stream.write(chunk, () => resolve()));
+    if (stream.writableNeedDrain) {
+      await new Promise<void>(resolve => {
+        const done = () => {
+          stream.removeListener('drain', done);
+          stream.removeListener('close', done);
+          resolve();
+        };
+        stream.once('drain', done);
+        stream.once('close', done);
+      });
+    }
+    await written;
+  }
+
+  private async closeStream(): Promise<void> {
+    const { stream } = this;
+    if (!stream) return;
+
+    this.stream = undefined;
+    if (stream.destroyed) return;
+    await new Promise<void>(resolve => {
+      stream.once('close', resolve);
+      stream.end();
+    });
+  }
+
+  /**
+   * Size-based rotation: shifts `file.N` to `file.N+1` and moves the active file to `file.1`.
+   */
   private async rotate(): Promise<void> {
     try {
       // Rotate existing files
       for (let i = this.maxFiles - 1; i >= 1; i--) {
-        const oldFile = `${this.filename}.${i}`;
-        const newFile = `${this.filename}.${i + 1}`;
-
-        try {
-          await fs.access(oldFile);
-          if (i === this.maxFiles - 1) {
-            await fs.unlink(oldFile); // Delete oldest file
-          } else {
-            await fs.rename(oldFile, newFile);
+        for (const suffix of ['', '.gz']) {
+          const oldFile = `${this.currentFile}.${i}${suffix}`;
+          const newFile = `${this.currentFile}.${i + 1}${suffix}`;
+
+          try {
+            await fs.access(oldFile);
+            if (i === this.maxFiles - 1) {
+              await fs.unlink(oldFile); // Delete oldest file
+            } else {
+              await fs.rename(oldFile, newFile);
+            }
+          } catch {
+            // File doesn't exist, continue
           }
-        } catch {
-          // File doesn't exist, continue
         }
       }
 
       // Move current file to .1
+      let rotated: string | undefined = `${this.currentFile}.1`;
       try {
-        await fs.access(this.filename);
-        await fs.rename(this.filename, `${this.filename}.1`);
+        await fs.access(this.currentFile);
+        await fs.rename(this.currentFile, rotated);
       } catch {
-        // Current file doesn't exist
+        rotated = undefined; // Current file doesn't exist
       }
 
       this.currentSize = 0;
+      if (rotated) await this.finishRotation(rotated);
     } catch (error) {
       console.error('Failed to rotate log file:', error);
     }
   }
 
+  /**
+   * Time-based rotation: switches to the file of the new period, leaving the previous one
+   * in place under its date-stamped name.
+   */
+  private async rotatePeriod(periodFile: string): Promise<void> {
+    const previous = this.currentFile;
+    this.currentFile = periodFile;
+    this.currentSize = await this.statSize(periodFile);
+
+    try {
+      await fs.access(previous);
+      await this.finishRotation(previous);
+    } catch {
+      // Nothing was written during the previous period
+    }
+  }
+
+  /**
+   * Compresses a rotated file, applies retention and notifies the `onRotate` hook.
+   */
+  private async finishRotation(rotated: string): Promise<void> {
+    let rotatedFile = rotated;
+
+    try {
+      if (this.compress) {
+        await pipeline(createReadStream(rotated), createGzip(), createWriteStream(`${rotated}.gz`));
+        await fs.unlink(rotated);
+        rotatedFile = `${rotated}.gz`;
+      }
+
+      await this.prune();
+    } catch (error) {
+      console.error('Failed to rotate log file:', error);
+    }
+
+    try {
+      await this.onRotate?.(rotatedFile, this.currentFile);
+    } catch (error) {
+      console.error('FileTransport onRotate hook failed:', error);
+    }
+  }
+
+  /**
+   * Deletes rotated files beyond `maxFiles` or older than `maxAge`.
+   */
+  private async prune(): Promise<void> {
+    // listLogFiles normalizes paths, so `./logs/app.log` is listed as `logs/app.log`
+    const current = path.resolve(this.currentFile);
+    const rotated = (await listLogFiles(this.filename)).filter(
+      file => path.resolve(file) !== current
+    );
+    const excess = rotated.length - (this.maxFiles - 1);
+    const cutoff = this.maxAge !== undefined ? Date.now() - this.maxAge : undefined;
+
+    for (const [index, file] of rotated.entries()) {
+      try {
+        if (index < excess || (cutoff !== undefined && (await fs.stat(file)).mtimeMs < cutoff)) {
+          await fs.unlink(file);
+        }
+      } catch {
+        // File was removed concurrently, continue
+      }
+    }
+  }
+
+  private async statSize(file: string): Promise<number> {
+    try {
+      return (await fs.stat(file)).size;
+    } catch {
+      return 0;
+    }
+  }
+
+  /**
+   * Streams the entries matching a query from the log file and its rotations, oldest first.
+   * Buffered entries are flushed first.
+   * @param query - Criteria the returned entries must match.
+   */
+  async *query(query: LogQuery = {}): AsyncGenerator<LogEntry> {
+    await this.flush();
+    yield* queryLogFiles(this.filename, query);
+  }
+
+  /**
+   * Flushes the buffered entries and closes the file.
+   */
   async close(): Promise<void> {
-    // No resources to clean up for file transport
+    await this.flush();
+    await this.closeStream();
   }
 }
+
+/**
+ * @internal
+ */
+interface BufferedLine {
+  text: string;
+  bytes: number;
+  file: string; // the dated file of the period the entry was logged in
+}
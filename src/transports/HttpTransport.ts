@@ -1,11 +1,22 @@
 /* globals NodeJS */
+import fs from 'fs/promises';
+import path from 'path';
+import { JsonFormatter } from '../formatters/index.js';
 import { LogLevel } from '../types/enums/log-level.enum.js';
+import { LogFormatter } from '../types/formatters/log-formatter.interface.js';
 import { LogTransport } from '../types/transports/log-transport.interface.js';
-import { HttpTransportConfig } from '../types/transports/http-transport.config.js';
+import { HttpDropPolicy, HttpTransportConfig } from '../types/transports/http-transport.config.js';
 import { LogEntry } from '../types/log-entry.interface.js';
+import { applyRoutingOptions } from '../utils/index.js';
+
+type SendResult = 'sent' | 'retry' | 'rejected';
 
 /**
- * HTTP transport for sending logs to a remote server
+ * HTTP transport for sending logs to a remote server.
+ *
+ * Failed batches are retried with exponential backoff. Without a spool directory they are
+ * kept in a bounded in-memory buffer; with `spoolDir` every batch is written to disk before
+ * being sent, so undelivered batches survive restarts and are replayed on startup.
  */
 export class HttpTransport implements LogTransport {
   name = 'http';
@@ -14,15 +25,58 @@ export class HttpTransport implements LogTransport {
   private headers: Record<string, string>;
   private batchSize: number;
   private flushInterval: number;
+  private formatter: LogFormatter;
+  private json: boolean;
   private buffer: LogEntry[] = [];
   private timer?: NodeJS.Timeout;
+  private maxBufferSize: number;
+  private dropPolicy: HttpDropPolicy;
+  private initialDelay: number;
+  private maxDelay: number;
+  private factor: number;
+  private jitter: number;
+  private maxRetries: number;
+  private spoolDir: string | undefined;
+  private maxSpoolFiles: number;
+  private spoolReady?: Promise<void>;
+  private spoolSequence = 0;
+  private retryTimer: NodeJS.Timeout | undefined;
+  private attempt = 0;
+  private draining: Promise<void> | undefined;
+  private dropped = 0;
+  private closed = false;
 
   constructor(config: HttpTransportConfig) {
     this.level = config.level ?? LogLevel.INFO;
+    applyRoutingOptions(this, config);
     this.url = config.url;
     this.headers = { 'Content-Type': 'application/json', ...config.headers };
     this.batchSize = config.batchSize ?? 10;
     this.flushInterval = config.flushInterval ?? 5000;
+    this.formatter = config.formatter ?? new JsonFormatter();
+    this.json = config.json ?? this.formatter instanceof JsonFormatter;
+    this.maxBufferSize = config.maxBufferSize ?? 10000;
+    this.dropPolicy = config.dropPolicy ?? 'oldest';
+    this.initialDelay = config.retry?.initialDelay ?? 1000;
+    this.maxDelay = config.retry?.maxDelay ?? 60000;
+    this.factor = config.retry?.factor ?? 2;
+    this.jitter = Math.min(Math.max(config.retry?.jitter ?? 0.2, 0), 1);
+    this.maxRetries = config.retry?.maxRetries ?? Infinity;
+    this.maxSpoolFiles = config.maxSpoolFiles ?? 1000;
+
+    if (config.spoolDir) {
+      this.spoolDir = config.spoolDir;
+      // Replay batches left over by a previous process
+      this.spoolReady = fs.mkdir(config.spoolDir, { recursive: true }).then(
+        () => {
+          void this.flush();
+        },
+        (error: unknown) => {
+          console.error('HTTP transport failed to create spool directory:', error);
+          this.spoolDir = undefined;
+        }
+      );
+    }
 
     this.startTimer();
   }
@@ -31,64 +85,272 @@ export class HttpTransport implements LogTransport {
     if (entry.level < this.level) return;
 
     this.buffer.push(entry);
+    this.enforceBufferLimit();
 
-    if (this.buffer.length >= this.batchSize) {
+    if (this.buffer.length >= this.batchSize && !this.retryTimer) {
       void this.flush();
     }
   }
 
+  /**
+   * Sends every buffered and spooled batch. Resolves once delivery succeeded or a retry
+   * has been scheduled; concurrent calls share the same delivery run.
+   */
+  async flush(): Promise<void> {
+    this.draining ??= this.drain().finally(() => {
+      this.draining = undefined;
+    });
+    return this.draining;
+  }
+
+  /**
+   * Returns delivery statistics, mostly useful for monitoring outages.
+   */
+  getStats(): { buffered: number; dropped: number; retryAttempt: number } {
+    return { buffered: this.buffer.length, dropped: this.dropped, retryAttempt: this.attempt };
+  }
+
   private startTimer(): void {
     this.timer = setInterval(() => {
-      if (this.buffer.length > 0) {
+      if (this.buffer.length > 0 && !this.retryTimer) {
         void this.flush();
       }
     }, this.flushInterval);
   }
 
-  private async flush(): Promise<void> {
-    if (this.buffer.length === 0) return;
-
-    const entries = this.buffer.splice(0);
-    const payload = entries.map(entry => ({
-      timestamp: entry.timestamp.toISOString(),
-      level: LogLevel[entry.level],
-      message: entry.message,
-      context: entry.context,
-      error: entry.error
-        ? {
-            name: entry.error.name,
-            message: entry.error.message,
-            stack: entry.error.stack,
-          }
-        : undefined,
-      meta: entry.meta,
-    }));
+  private async drain(): Promise<void> {
+    if (this.spoolReady) await this.spoolReady;
+
+    if (this.spoolDir && !(await this.drainSpool())) {
+      await this.spoolBuffer();
+      return;
+    }
+
+    while (this.buffer.length > 0) {
+      const entries = this.buffer.splice(0, this.batchSize);
+
+      if (this.spoolDir) {
+        const file = await this.writeSpoolFile(this.serialize(entries));
+        if (!file || !(await this.deliverSpoolFile(file))) {
+          await this.spoolBuffer();
+          return;
+        }
+        continue;
+      }
+
+      const result = await this.send(this.serialize(entries));
+      if (result === 'retry') {
+        if (this.scheduleRetry()) {
+          this.buffer.unshift(...entries);
+          this.enforceBufferLimit();
+        } else {
+          this.dropped += entries.length;
+          console.error(`HTTP transport dropped ${entries.length} entries after max retries`);
+        }
+        return;
+      }
+      if (result === 'rejected') this.dropped += entries.length;
+    }
+
+    this.attempt = 0;
+  }
+
+  /**
+   * Sends spooled batches oldest first.
+   * @returns `false` if delivery failed and a retry is pending.
+   */
+  private async drainSpool(): Promise<boolean> {
+    for (const file of await this.listSpoolFiles()) {
+      if (!(await this.deliverSpoolFile(file))) return false;
+    }
+    return true;
+  }
+
+  /**
+   * Sends a spooled batch and removes it once it has been handled.
+   * @returns `false` if delivery failed and the file was kept for a retry.
+   */
+  private async deliverSpoolFile(file: string): Promise<boolean> {
+    let body: string;
+    try {
+      body = await fs.readFile(file, 'utf8');
+    } catch {
+      return true; // Already delivered by a concurrent run or removed by hand
+    }
+
+    const result = await this.send(body);
+    if (result === 'retry' && this.scheduleRetry()) return false;
+    if (result !== 'sent') this.dropped += countEntries(body);
+
+    await fs.rm(file, { force: true });
+    return true;
+  }
+
+  /**
+   * Writes a batch to the spool directory, evicting the oldest files past `maxSpoolFiles`.
+   * @returns The path of the spool file, or `undefined` if it could not be written.
+   */
+  private async writeSpoolFile(body: string): Promise<string | undefined> {
+    const dir = this.spoolDir;
+    if (!dir) return undefined;
+
+    // Zero-padded so that a lexical sort of the directory is chronological
+    const time = String(Date.now()).padStart(15, '0');
+    const sequence = String(this.spoolSequence++).padStart(6, '0');
+    const file = path.join(dir, `${time}-${sequence}.json`);
+
+    try {
+      await fs.writeFile(`${file}.tmp`, body, 'utf8');
+      await fs.rename(`${file}.tmp`, file);
+    } catch (error) {
+      console.error('HTTP transport failed to write spool file:', error);
+      return undefined;
+    }
+
+    const files = await this.listSpoolFiles();
+    for (const stale of files.slice(0, Math.max(0, files.length - this.maxSpoolFiles))) {
+      console.error(`HTTP transport spool is full, dropping ${stale}`);
+      await fs.rm(stale, { force: true });
+    }
+
+    return file;
+  }
+
+  /**
+   * Moves whatever is left in memory to disk while a retry is pending.
+   */
+  private async spoolBuffer(): Promise<void> {
+    while (this.buffer.length > 0) {
+      const entries = this.buffer.splice(0, this.batchSize);
+      if (!(await this.writeSpoolFile(this.serialize(entries)))) {
+        this.buffer.unshift(...entries);
+        return;
+      }
+    }
+  }
+
+  private async listSpoolFiles(): Promise<string[]> {
+    const dir = this.spoolDir;
+    if (!dir) return [];
+
+    try {
+      const names = await fs.readdir(dir);
+      return names
+        .filter(name => name.endsWith('.json'))
+        .sort()
+        .map(name => path.join(dir, name));
+    } catch {
+      return [];
+    }
+  }
 
+  private async send(body: string): Promise<SendResult> {
     try {
       const response = await fetch(this.url, {
         method: 'POST',
         headers: this.headers,
-        body: JSON.stringify({ logs: payload }),
+        body,
       });
 
-      if (!response.ok) {
-        console.error(`HTTP transport failed: ${response.status} ${response.statusText}`);
-        // Re-add entries to buffer for retry (optional)
-        this.buffer.unshift(...entries);
-      }
+      if (response.ok) return 'sent';
+
+      console.error(`HTTP transport failed: ${response.status} ${response.statusText}`);
+      // Client errors will fail again, except timeouts and rate limiting
+      const retryable = response.status >= 500 || [408, 429].includes(response.status);
+      return retryable ? 'retry' : 'rejected';
     } catch (error) {
       console.error('HTTP transport error:', error);
-      // Re-add entries to buffer for retry (optional)
-      this.buffer.unshift(...entries);
+      return 'retry';
     }
   }
 
+  /**
+   * Schedules the next delivery attempt using exponential backoff with jitter.
+   * @returns `false` once `maxRetries` is exhausted, in which case the batch should be dropped.
+   */
+  private scheduleRetry(): boolean {
+    if (this.attempt >= this.maxRetries) {
+      this.attempt = 0;
+      return false;
+    }
+    if (this.closed) return true;
+
+    const base = Math.min(this.maxDelay, this.initialDelay * Math.pow(this.factor, this.attempt));
+    const delay = base * (1 - this.jitter + Math.random() * 2 * this.jitter);
+    this.attempt++;
+
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = undefined;
+      void this.flush();
+    }, delay);
+    this.retryTimer.unref();
+
+    return true;
+  }
+
+  private enforceBufferLimit(): void {
+    while (this.buffer.length > this.maxBufferSize) {
+      switch (this.dropPolicy) {
+        case 'newest':
+          this.buffer.pop();
+          break;
+        case 'lowest-level': {
+          // The first entry of the lowest level is the oldest one
+          const lowest = this.buffer.reduce(
+            (min, entry, index, buffer) =>
+              entry.level < (buffer[min] as LogEntry).level ? index : min,
+            0
+          );
+          this.buffer.splice(lowest, 1);
+          break;
+        }
+        case 'oldest':
+        default:
+          this.buffer.shift();
+      }
+      this.dropped++;
+    }
+  }
+
+  /**
+   * Builds the request body. The output of JSON formatters is embedded as-is, any other
+   * output (e.g. from `DevFormatter`) is sent as a string.
+   */
+  private serialize(entries: LogEntry[]): string {
+    const logs = entries.map(entry => {
+      const formatted = this.formatter.format(entry);
+      return this.json ? formatted : JSON.stringify(formatted);
+    });
+
+    return `{"logs":[${logs.join(',')}]}`;
+  }
+
   async close(): Promise<void> {
+    this.closed = true;
+
     if (this.timer) {
       clearInterval(this.timer);
     }
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+    }
 
-    // Flush remaining entries
+    // Flush remaining entries; undelivered batches stay in the spool if one is configured
+    if (this.draining) await this.draining;
     await this.flush();
   }
 }
+
+/**
+ * Counts the entries of a serialized batch, tolerating corrupted spool files.
+ * @internal
+ */
+function countEntries(body: string): number {
+  try {
+    const { logs } = JSON.parse(body) as { logs?: unknown[] };
+    return logs?.length ?? 0;
+  } catch {
+    return 0;
+  }
+}
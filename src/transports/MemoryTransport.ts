@@ -1,6 +1,9 @@
 import { LogLevel } from '../types/enums/log-level.enum.js';
 import { LogTransport } from '../types/transports/log-transport.interface.js';
 import { LogEntry } from '../types/log-entry.interface.js';
+import { LogQuery } from '../types/log-query.interface.js';
+import { applyRoutingOptions, queryEntries } from '../utils/index.js';
+import { TransportRoutingOptions } from '../types/transports/transport-route.interface.js';
 
 /**
  * Memory transport for testing and development
@@ -11,8 +14,9 @@ export class MemoryTransport implements LogTransport {
   private logs: LogEntry[] = [];
   private maxSize: number;
 
-  constructor(config: { level?: LogLevel; maxSize?: number } = {}) {
+  constructor(config: { level?: LogLevel; maxSize?: number } & TransportRoutingOptions = {}) {
     this.level = config.level ?? LogLevel.TRACE;
+    applyRoutingOptions(this, config);
     this.maxSize = config.maxSize ?? 1000;
   }
 
@@ -31,6 +35,15 @@ export class MemoryTransport implements LogTransport {
     return [...this.logs];
   }
 
+  /**
+   * Searches the stored logs, oldest first.
+   * @param query - Criteria the returned entries must match.
+   * @returns The matching entries.
+   */
+  query(query: LogQuery = {}): LogEntry[] {
+    return queryEntries(this.logs, query);
+  }
+
   clear(): void {
     this.logs = [];
   }
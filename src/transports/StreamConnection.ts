@@ -0,0 +1,226 @@
+/* globals NodeJS */
+import type { Writable } from 'stream';
+import { ReconnectConfig } from '../types/transports/reconnect-config.interface.js';
+
+/**
+ * Options of a `StreamConnection`
+ * @internal
+ */
+export interface StreamConnectionOptions {
+  connect: () => Writable; // opens the stream, again on every reconnection
+  readyEvent?: string | undefined; // emitted once the stream accepts data, e.g. 'connect'
+  connectTimeout?: number | undefined; // in milliseconds to wait for readyEvent, defaults to 10000
+  reconnect?: ReconnectConfig | false | undefined; // false: the stream is not reopened
+  maxBufferSize: number; // in chunks kept while disconnected or waiting for 'drain'
+  end?: boolean | undefined; // close() ends the stream, defaults to true
+  onError: (error: Error) => void;
+  onConnect?: (() => void) | undefined;
+  onDisconnect?: ((error: Error | undefined) => void) | undefined;
+  onReconnect?: ((attempt: number, delay: number) => void) | undefined;
+}
+
+/**
+ * Connection to a writable stream shared by the stream and syslog transports: opens the
+ * stream lazily, buffers chunks while disconnected or while the stream applies backpressure
+ * (dropping the oldest beyond `maxBufferSize`) and reopens it with exponential backoff.
+ * A stream that does not emit `readyEvent` within `connectTimeout` is destroyed and reopened.
+ * Sockets and timers are unref'd, so an idle connection does not keep the process alive.
+ * @internal
+ */
+export class StreamConnection {
+  private options: StreamConnectionOptions;
+  private initialDelay: number;
+  private maxDelay: number;
+  private factor: number;
+  private connectTimeout: number;
+  private stream: Writable | undefined;
+  private connected = false;
+  private writable = false; // connected and not waiting for 'drain'
+  private buffer: (string | Buffer)[] = [];
+  private attempt = 0;
+  private retryTimer: NodeJS.Timeout | undefined;
+  private dropped = 0;
+  private closed = false;
+
+  constructor(options: StreamConnectionOptions) {
+    this.options = options;
+    const reconnect = options.reconnect === false ? {} : (options.reconnect ?? {});
+    this.initialDelay = reconnect.initialDelay ?? 1000;
+    this.maxDelay = reconnect.maxDelay ?? 30000;
+    this.factor = reconnect.factor ?? 2;
+    this.connectTimeout = options.connectTimeout ?? 10000;
+  }
+
+  getStats(): { connected: boolean; buffered: number; dropped: number } {
+    return { connected: this.connected, buffered: this.buffer.length, dropped: this.dropped };
+  }
+
+  write(chunk: string | Buffer): void {
+    if (this.closed) {
+      this.dropped++;
+      return;
+    }
+
+    if (this.stream && this.writable) {
+      this.send(this.stream, chunk);
+      return;
+    }
+
+    this.buffer.push(chunk);
+    if (this.buffer.length > this.options.maxBufferSize) {
+      this.buffer.shift();
+      this.dropped++;
+    }
+    this.open();
+  }
+
+  private send(stream: Writable, chunk: string | Buffer): void {
+    if (stream.write(chunk)) return;
+
+    this.writable = false;
+    stream.once('drain', () => {
+      if (this.stream !== stream) return;
+      this.writable = true;
+      this.writeBuffer(stream);
+    });
+  }
+
+  private writeBuffer(stream: Writable): void {
+    while (this.writable) {
+      const chunk = this.buffer.shift();
+      if (chunk === undefined) return;
+      this.send(stream, chunk);
+    }
+  }
+
+  private open(): void {
+    if (this.stream || this.retryTimer || this.closed) return;
+
+    let stream: Writable;
+    try {
+      stream = this.options.connect();
+    } catch (error) {
+      this.options.onError(error as Error);
+      this.scheduleReconnect();
+      return;
+    }
+
+    let lastError: Error | undefined;
+    let connectTimer: NodeJS.Timeout | undefined;
+    const ready = () => {
+      clearTimeout(connectTimer);
+      this.connected = true;
+      this.writable = true;
+      this.attempt = 0;
+      this.options.onConnect?.();
+      this.writeBuffer(stream);
+    };
+
+    (stream as { unref?: () => void }).unref?.();
+    stream.on('error', error => {
+      lastError = error;
+      this.options.onError(error);
+    });
+    stream.once('close', () => {
+      clearTimeout(connectTimer);
+      const wasConnected = this.connected;
+      this.stream = undefined;
+      this.connected = false;
+      this.writable = false;
+      if (wasConnected) this.options.onDisconnect?.(lastError);
+
+      if (this.options.reconnect === false) {
+        // The stream cannot be reopened: what is left will never be written
+        this.closed = true;
+        this.dropped += this.buffer.length;
+        this.buffer = [];
+      } else {
+        this.scheduleReconnect();
+      }
+    });
+    this.stream = stream;
+
+    if (this.options.readyEvent) {
+      stream.once(this.options.readyEvent, ready);
+      const timeout = this.connectTimeout;
+      connectTimer = setTimeout(() => {
+        stream.destroy(new Error(`Connection timed out after ${timeout}ms`));
+      }, timeout);
+      connectTimer.unref();
+    } else {
+      ready();
+    }
+  }
+
+  private scheduleReconnect(): void {
+    // Nothing to send: the next write reconnects
+    if (this.closed || this.buffer.length === 0) return;
+
+    const delay = Math.min(this.initialDelay * this.factor ** this.attempt, this.maxDelay);
+    this.attempt++;
+    this.options.onReconnect?.(this.attempt, delay);
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = undefined;
+      this.open();
+    }, delay);
+    this.retryTimer.unref();
+  }
+
+  /**
+   * Resolves once the chunks written so far have been handed to the stream's destination.
+   * Chunks buffered while disconnected stay buffered.
+   */
+  async flush(): Promise<void> {
+    const { stream } = this;
+    if (!stream) return;
+
+    while (this.stream === stream && this.connected && !this.writable) {
+      await waitForEvent(stream, ['drain', 'close']);
+    }
+
+    if (this.stream === stream && this.connected && stream.writableLength > 0) {
+      await new Promise(resolve => stream.write('', resolve));
+    }
+  }
+
+  /**
+   * Waits for a pending connection attempt (at most `connectTimeout`), writes the buffered
+   * chunks and ends the stream. Chunks that could not be written are counted as dropped.
+   */
+  async close(): Promise<void> {
+    if (this.closed) return;
+    this.closed = true;
+    clearTimeout(this.retryTimer);
+    this.retryTimer = undefined;
+
+    const { stream } = this;
+    if (stream && !this.connected && this.options.readyEvent) {
+      await waitForEvent(stream, [this.options.readyEvent, 'close']);
+    }
+
+    if (stream && this.stream === stream && this.connected) {
+      // Backpressure no longer matters, the stream buffers the rest
+      for (const chunk of this.buffer.splice(0)) stream.write(chunk);
+      await new Promise(resolve =>
+        this.options.end === false ? stream.write('', resolve) : stream.end(resolve)
+      );
+    }
+
+    this.dropped += this.buffer.length;
+    this.buffer = [];
+  }
+}
+
+/**
+ * Resolves on the first of the given events.
+ * @internal
+ */
+function waitForEvent(stream: Writable, events: string[]): Promise<void> {
+  return new Promise(resolve => {
+    const done = () => {
+      for (const event of events) stream.removeListener(event, done);
+      resolve();
+    };
+    for (const event of events) stream.once(event, done);
+  });
+}
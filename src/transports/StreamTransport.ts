@@ -0,0 +1,104 @@
+import { EventEmitter } from 'events';
+import net from 'net';
+import { Writable } from 'stream';
+import tls from 'tls';
+import { JsonFormatter } from '../formatters/index.js';
+import { LogLevel } from '../types/enums/log-level.enum.js';
+import { LogFormatter } from '../types/formatters/log-formatter.interface.js';
+import { LogTransport } from '../types/transports/log-transport.interface.js';
+import {
+  StreamTransportConfig,
+  StreamTransportEvents,
+} from '../types/transports/stream-transport.config.js';
+import { LogEntry } from '../types/log-entry.interface.js';
+import { StreamConnection } from './StreamConnection.js';
+import { applyRoutingOptions } from '../utils/index.js';
+
+/**
+ * Stream transport writing newline-delimited entries (JSON by default) to a TCP or TLS
+ * endpoint, such as a Logstash, Fluent Bit or Vector input, or to any `Writable`.
+ *
+ * The connection is opened on the first entry and reopened with exponential backoff when it
+ * closes; up to `maxBufferSize` entries are kept while disconnected or while the stream
+ * applies backpressure, the oldest being dropped beyond that. A `Writable` instance cannot
+ * be reopened: pass a function creating the stream to reconnect custom sinks.
+ *
+ * Emits `connect`, `disconnect` (with the error that closed the connection, if any) and
+ * `reconnecting` (with the attempt number and its delay).
+ */
+export class StreamTransport extends EventEmitter<StreamTransportEvents> implements LogTransport {
+  name = 'stream';
+  level: LogLevel;
+  private formatter: LogFormatter;
+  private connection: StreamConnection;
+
+  constructor(config: StreamTransportConfig) {
+    super();
+    this.level = config.level ?? LogLevel.INFO;
+    applyRoutingOptions(this, config);
+    this.formatter = config.formatter ?? new JsonFormatter();
+
+    const { stream, port, tls: tlsOptions } = config;
+    const host = config.host ?? 'localhost';
+    if (!stream && port === undefined) {
+      throw new Error('StreamTransport requires a port or a stream');
+    }
+
+    let connect: () => Writable;
+    if (stream instanceof Writable) {
+      connect = () => stream;
+    } else if (stream) {
+      connect = stream;
+    } else if (tlsOptions) {
+      connect = () =>
+        tls.connect({
+          servername: net.isIP(host) ? undefined : host,
+          ...(tlsOptions === true ? {} : tlsOptions),
+          host,
+          port,
+        });
+    } else {
+      connect = () => net.connect(port ?? 0, host);
+    }
+
+    this.connection = new StreamConnection({
+      connect,
+      readyEvent: stream ? undefined : tlsOptions ? 'secureConnect' : 'connect',
+      connectTimeout: config.connectTimeout,
+      reconnect: stream instanceof Writable ? false : config.reconnect,
+      maxBufferSize: config.maxBufferSize ?? 1000,
+      end: config.end,
+      onError: error => console.error('Stream transport failed:', error),
+      onConnect: () => this.emit('connect'),
+      onDisconnect: error => this.emit('disconnect', error),
+      onReconnect: (attempt, delay) => this.emit('reconnecting', attempt, delay),
+    });
+  }
+
+  log(entry: LogEntry): void {
+    if (entry.level < this.level) return;
+    this.connection.write(`${this.formatter.format(entry)}\n`);
+  }
+
+  /**
+   * Returns the connection state and delivery statistics.
+   */
+  getStats(): { connected: boolean; buffered: number; dropped: number } {
+    return this.connection.getStats();
+  }
+
+  /**
+   * Resolves once the entries logged so far have been handed to the stream's destination.
+   * Entries buffered while disconnected are written on reconnection.
+   */
+  flush(): Promise<void> {
+    return this.connection.flush();
+  }
+
+  /**
+   * Writes the buffered entries and ends the stream, unless `end` is `false`.
+   */
+  close(): Promise<void> {
+    return this.connection.close();
+  }
+}
@@ -0,0 +1,148 @@
+import dgram from 'dgram';
+import net from 'net';
+import { SyslogFormatter } from '../formatters/index.js';
+import { LogLevel } from '../types/enums/log-level.enum.js';
+import { LogFormatter } from '../types/formatters/log-formatter.interface.js';
+import { LogTransport } from '../types/transports/log-transport.interface.js';
+import {
+  SyslogFraming,
+  SyslogProtocol,
+  SyslogTransportConfig,
+} from '../types/transports/syslog-transport.config.js';
+import { LogEntry } from '../types/log-entry.interface.js';
+import { StreamConnection } from './StreamConnection.js';
+import { applyRoutingOptions } from '../utils/index.js';
+
+/**
+ * Syslog transport sending RFC 5424 (or RFC 3164) messages over UDP, TCP or a Unix socket.
+ *
+ * UDP messages longer than `maxMessageSize` are truncated. Stream connections are opened on
+ * the first message and reopened with exponential backoff after failures; up to
+ * `maxBufferSize` messages are kept meanwhile. On TCP messages are framed by octet counting
+ * (`<length> <message>`), on Unix sockets they end with a newline, newlines inside a message
+ * being replaced by spaces. Connection failures are reported once per outage.
+ *
+ * Unix sockets are connected as streams, so `path` must name a stream socket: Node cannot
+ * write to datagram sockets such as the usual `/dev/log`.
+ */
+export class SyslogTransport implements LogTransport {
+  name = 'syslog';
+  level: LogLevel;
+  private formatter: LogFormatter;
+  private protocol: SyslogProtocol;
+  private host: string;
+  private port: number;
+  private framing: SyslogFraming;
+  private maxMessageSize: number;
+  private udpSocket: dgram.Socket | undefined;
+  private pendingSends = new Set<Promise<void>>();
+  private connection: StreamConnection | undefined;
+  private udpDropped = 0;
+  private failing = false; // a connection failure was reported since the last connection
+
+  constructor(config: SyslogTransportConfig = {}) {
+    this.level = config.level ?? LogLevel.INFO;
+    applyRoutingOptions(this, config);
+    this.protocol = config.protocol ?? 'udp';
+    this.host = config.host ?? 'localhost';
+    this.port = config.port ?? 514;
+    this.framing = config.framing ?? (this.protocol === 'unix' ? 'newline' : 'octet-counting');
+    this.maxMessageSize = config.maxMessageSize ?? 2048;
+
+    const { formatter, messageFormatter, ...options } = config;
+    this.formatter =
+      formatter ??
+      new SyslogFormatter(messageFormatter ? { ...options, message: messageFormatter } : options);
+
+    const socketPath = config.path;
+    if (this.protocol === 'unix' && !socketPath) {
+      throw new Error(
+        'SyslogTransport requires a path to a stream socket with the unix protocol; /dev/log is usually a datagram socket, which Node cannot write to: use udp to localhost instead'
+      );
+    }
+
+    if (this.protocol !== 'udp') {
+      this.connection = new StreamConnection({
+        connect: () =>
+          socketPath && this.protocol === 'unix'
+            ? net.connect(socketPath)
+            : net.connect(this.port, this.host),
+        readyEvent: 'connect',
+        connectTimeout: config.connectTimeout,
+        reconnect: config.reconnect,
+        maxBufferSize: config.maxBufferSize ?? 1000,
+        onError: error => {
+          if (this.failing) return;
+          this.failing = true;
+          console.error('Syslog transport connection failed, retrying:', error);
+        },
+        onConnect: () => {
+          this.failing = false;
+        },
+      });
+    }
+  }
+
+  log(entry: LogEntry): void {
+    if (entry.level < this.level) return;
+
+    const message = this.formatter.format(entry);
+    if (this.connection) {
+      this.connection.write(this.frame(message));
+    } else {
+      this.send(Buffer.from(message, 'utf8').subarray(0, this.maxMessageSize));
+    }
+  }
+
+  private frame(message: string): string {
+    if (this.framing === 'newline') return `${message.replace(/\r?\n/g, ' ')}\n`;
+    return `${Buffer.byteLength(message, 'utf8')} ${message}`;
+  }
+
+  private send(message: Buffer): void {
+    if (!this.udpSocket) {
+      const socket = dgram.createSocket(net.isIPv6(this.host) ? 'udp6' : 'udp4');
+      socket.on('error', error => console.error('Syslog transport failed to send:', error));
+      socket.unref();
+      this.udpSocket = socket;
+    }
+
+    const sent = new Promise<void>(resolve => {
+      this.udpSocket?.send(message, this.port, this.host, error => {
+        if (error) this.udpDropped++;
+        resolve();
+      });
+    });
+    this.pendingSends.add(sent);
+    void sent.then(() => this.pendingSends.delete(sent));
+  }
+
+  /**
+   * Returns delivery statistics, mostly useful for monitoring outages.
+   */
+  getStats(): { connected: boolean; buffered: number; dropped: number } {
+    if (this.connection) return this.connection.getStats();
+    return { connected: true, buffered: this.pendingSends.size, dropped: this.udpDropped };
+  }
+
+  /**
+   * Resolves once the messages logged so far have been handed to the operating system.
+   * Messages buffered while disconnected are sent on reconnection.
+   */
+  async flush(): Promise<void> {
+    await Promise.all(this.pendingSends);
+    await this.connection?.flush();
+  }
+
+  /**
+   * Sends the pending messages and closes the socket.
+   */
+  async close(): Promise<void> {
+    await this.flush();
+    await this.connection?.close();
+
+    const socket = this.udpSocket;
+    this.udpSocket = undefined;
+    if (socket) await new Promise<void>(resolve => socket.close(() => resolve()));
+  }
+}
@@ -0,0 +1,245 @@
+/* globals NodeJS */
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { Worker } from 'worker_threads';
+import { LogLevel } from '../types/enums/log-level.enum.js';
+import { LogEntry } from '../types/log-entry.interface.js';
+import { LogTransport } from '../types/transports/log-transport.interface.js';
+import { WorkerInitData, WorkerResponse } from '../types/transports/worker-message.type.js';
+import {
+  WorkerOverflowPolicy,
+  WorkerTransportConfig,
+} from '../types/transports/worker-transport.config.js';
+import { EncodedLogEntry, encodeEntry } from '../utils/entry-codec.js';
+import { applyRoutingOptions } from '../utils/transport-route.js';
+import { toSerializable } from '../serializers/index.js';
+
+// Under a TypeScript loader (tsx, vitest) this module runs from its .ts source
+const WORKER_URL = new URL(
+  `./transport-worker.${import.meta.url.endsWith('.ts') ? 'ts' : 'js'}`,
+  import.meta.url
+);
+
+// Imports the preloaded modules (e.g. loader hooks, which workers do not inherit) first
+const BOOTSTRAP = `
+const { workerData } = require('worker_threads');
+(async () => {
+  for (const specifier of workerData.preload) await import(specifier);
+  await import(workerData.entry);
+})();
+`;
+
+/**
+ * Transport running other transports in a `worker_threads` worker, so that formatting and
+ * I/O stay off the main event loop.
+ *
+ * Entries are encoded (errors become plain objects, dates are cloned as dates) and posted
+ * to the worker in batches. At most `maxQueueSize` entries can wait for the worker; beyond
+ * that new entries are dropped, or with `overflow: 'block'` the main thread waits up to
+ * `blockTimeout` for the worker to catch up.
+ *
+ * The worker does not keep the process alive: call `close()` to drain it before exiting.
+ */
+export class WorkerTransport implements LogTransport {
+  name = 'worker';
+  level: LogLevel;
+  private maxQueueSize: number;
+  private overflow: WorkerOverflowPolicy;
+  private blockTimeout: number;
+  private closeTimeout: number;
+  private worker: Worker | undefined;
+  private queued: Int32Array;
+  private pending: EncodedLogEntry[] = [];
+  private scheduled: NodeJS.Immediate | undefined;
+  private dropped = 0;
+  private flushes: (() => void)[] = [];
+  private closing: Promise<void> | undefined;
+
+  constructor(config: WorkerTransportConfig) {
+    this.level = config.level ?? LogLevel.TRACE;
+    applyRoutingOptions(this, config);
+    this.maxQueueSize = config.maxQueueSize ?? 10000;
+    this.overflow = config.overflow ?? 'drop';
+    this.blockTimeout = config.blockTimeout ?? 5000;
+    this.closeTimeout = config.closeTimeout ?? 10000;
+
+    const workerData: WorkerInitData = {
+      entry: WORKER_URL.href,
+      preload: (config.preload ?? []).map(toModuleSpecifier),
+      targets: config.targets.map(target => ({
+        ...target,
+        target: toModuleSpecifier(target.target),
+      })),
+      queued: new SharedArrayBuffer(Int32Array.BYTES_PER_ELEMENT),
+    };
+    this.queued = new Int32Array(workerData.queued);
+
+    const worker = new Worker(BOOTSTRAP, { eval: true, workerData });
+    worker.on('message', (message: WorkerResponse) => {
+      if (message.type === 'error') {
+        console.error('Failed to start worker transport:', message.message);
+      } else if (message.type === 'flushed') {
+        this.flushes.shift()?.();
+      }
+    });
+    worker.on('error', error => {
+      console.error('Worker transport failed:', error);
+    });
+    worker.once('exit', () => {
+      this.worker = undefined;
+      // Entries the worker did not get to are lost
+      this.dropped += Atomics.exchange(this.queued, 0, 0);
+      for (const resolve of this.flushes.splice(0)) resolve();
+    });
+    worker.unref();
+    this.worker = worker;
+  }
+
+  /**
+   * Returns queue statistics, mostly useful for monitoring a worker that falls behind.
+   */
+  getStats(): { queued: number; dropped: number } {
+    return { queued: Atomics.load(this.queued, 0), dropped: this.dropped };
+  }
+
+  log(entry: LogEntry): void {
+    if (entry.level < this.level) return;
+
+    if (!this.worker || this.closing) {
+      this.dropped++;
+      return;
+    }
+
+    if (
+      Atomics.load(this.queued, 0) >= this.maxQueueSize &&
+      (this.overflow === 'drop' || !this.waitForCapacity())
+    ) {
+      this.dropped++;
+      return;
+    }
+
+    Atomics.add(this.queued, 0, 1);
+    this.pending.push(encodeEntry(entry));
+    this.scheduled ??= setImmediate(() => this.post());
+  }
+
+  /**
+   * Blocks the main thread until the worker frees a queue slot.
+   * @returns `false` if no slot was freed within `blockTimeout`.
+   */
+  private waitForCapacity(): boolean {
+    // Entries waiting for the next batch count towards the queue, post them first
+    this.post();
+
+    // The worker exiting cannot be observed while blocked, hence the deadline
+    const deadline = Date.now() + this.blockTimeout;
+    let queued = Atomics.load(this.queued, 0);
+    while (queued >= this.maxQueueSize) {
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) return false;
+      Atomics.wait(this.queued, 0, queued, remaining);
+      queued = Atomics.load(this.queued, 0);
+    }
+    return true;
+  }
+
+  private post(): void {
+    if (this.scheduled) {
+      clearImmediate(this.scheduled);
+      this.scheduled = undefined;
+    }
+
+    const entries = this.pending;
+    this.pending = [];
+    if (entries.length === 0) return;
+
+    if (!this.worker) {
+      Atomics.sub(this.queued, 0, entries.length);
+      this.dropped += entries.length;
+      return;
+    }
+
+    try {
+      this.worker.postMessage({ type: 'log', entries });
+    } catch {
+      // A value in the batch cannot be cloned (e.g. a function in the context):
+      // post entries one by one, falling back to their serializable form
+      for (const entry of entries) {
+        this.postEntry(entry);
+      }
+    }
+  }
+
+  private postEntry(entry: EncodedLogEntry): void {
+    try {
+      this.worker?.postMessage({ type: 'log', entries: [entry] });
+    } catch {
+      const { context, meta, error } = entry;
+      const serializable = { ...entry };
+      if (context) serializable.context = toSerializable(context) as typeof context;
+      if (meta) serializable.meta = toSerializable(meta) as typeof meta;
+      if (error) serializable.error = toSerializable(error) as typeof error;
+      this.worker?.postMessage({ type: 'log', entries: [serializable] });
+    }
+  }
+
+  /**
+   * Waits for the worker to handle the queued entries and flush its transports.
+   */
+  flush(): Promise<void> {
+    this.post();
+
+    const { worker } = this;
+    if (!worker) return Promise.resolve();
+
+    // The worker answers requests in order, so the oldest waiting flush is the one answered
+    return new Promise(resolve => {
+      this.flushes.push(resolve);
+      worker.postMessage({ type: 'flush' });
+    });
+  }
+
+  /**
+   * Waits for the worker to write the queued entries and close its transports, terminating
+   * it after `closeTimeout`.
+   */
+  close(): Promise<void> {
+    this.closing ??= this.shutdown();
+    return this.closing;
+  }
+
+  private async shutdown(): Promise<void> {
+    this.post();
+
+    const { worker } = this;
+    if (!worker) return;
+
+    let timeout: NodeJS.Timeout | undefined;
+    const closed = new Promise<void>(resolve => {
+      worker.on('message', (message: WorkerResponse) => {
+        if (message.type === 'closed') resolve();
+      });
+      worker.once('exit', () => resolve());
+      timeout = setTimeout(() => {
+        console.error('Worker transport did not close in time, terminating it');
+        resolve();
+      }, this.closeTimeout);
+    });
+
+    worker.postMessage({ type: 'close' });
+    await closed;
+    clearTimeout(timeout);
+    await worker.terminate();
+  }
+}
+
+/**
+ * Turns file paths, resolved against the working directory, into file URLs. Package names,
+ * URLs and built-in target names are kept.
+ * @internal
+ */
+function toModuleSpecifier(specifier: string): string {
+  return specifier.startsWith('.') || path.isAbsolute(specifier)
+    ? pathToFileURL(path.resolve(specifier)).href
+    : specifier;
+}
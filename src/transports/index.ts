@@ -2,3 +2,6 @@ export * from './ConsoleTransport.js';
 export * from './FileTransport.js';
 export * from './HttpTransport.js';
 export * from './MemoryTransport.js';
+export * from './WorkerTransport.js';
+export * from './SyslogTransport.js';
+export * from './StreamTransport.js';
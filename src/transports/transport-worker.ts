@@ -0,0 +1,117 @@
+import { MessagePort, isMainThread, parentPort, workerData } from 'worker_threads';
+import { LogTransport } from '../types/transports/log-transport.interface.js';
+import {
+  WorkerInitData,
+  WorkerRequest,
+  WorkerResponse,
+} from '../types/transports/worker-message.type.js';
+import { WorkerTransportTarget } from '../types/transports/worker-transport.config.js';
+import { decodeEntry } from '../utils/entry-codec.js';
+import { acceptsEntry } from '../utils/transport-route.js';
+import { ConsoleTransport } from './ConsoleTransport.js';
+import { FileTransport } from './FileTransport.js';
+import { HttpTransport } from './HttpTransport.js';
+import { StreamTransport } from './StreamTransport.js';
+import { SyslogTransport } from './SyslogTransport.js';
+
+type TransportClass = new (options: never) => LogTransport;
+
+const BUILT_IN: Record<string, TransportClass> = {
+  console: ConsoleTransport,
+  file: FileTransport,
+  http: HttpTransport,
+  stream: StreamTransport,
+  syslog: SyslogTransport,
+};
+
+/**
+ * Entry point of the worker thread started by `WorkerTransport`: creates the target
+ * transports and hands them the entries posted by the main thread, in order.
+ * @internal
+ */
+function startWorker(port: MessagePort, { targets, queued }: WorkerInitData): void {
+  const counter = new Int32Array(queued);
+  const send = (message: WorkerResponse) => port.postMessage(message);
+
+  let transports: LogTransport[] = [];
+  let processing = Promise.all(targets.map(createTransport)).then(
+    created => {
+      transports = created;
+      send({ type: 'ready' });
+    },
+    (error: unknown) => {
+      send({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+    }
+  );
+
+  port.on('message', (request: WorkerRequest) => {
+    processing = processing.then(async () => {
+      if (request.type === 'log') {
+        for (const encoded of request.entries) {
+          const entry = decodeEntry(encoded);
+          await Promise.all(
+            transports.map(async transport => {
+              try {
+                if (entry.level >= transport.level && acceptsEntry(transport, entry)) {
+                  await transport.log(entry);
+                }
+              } catch (err) {
+                console.error(`Transport ${transport.name} failed:`, err);
+              }
+            })
+          );
+        }
+        // Frees queue slots, waking up a main thread blocked on a full queue
+        Atomics.sub(counter, 0, request.entries.length);
+        Atomics.notify(counter, 0);
+      } else if (request.type === 'flush') {
+        await Promise.all(
+          transports.map(async transport => {
+            try {
+              await transport.flush?.();
+            } catch (err) {
+              console.error(`Failed to flush transport ${transport.name}:`, err);
+            }
+          })
+        );
+        send({ type: 'flushed' });
+      } else {
+        await Promise.all(
+          transports.map(async transport => {
+            try {
+              await transport.close?.();
+            } catch (err) {
+              console.error(`Failed to close transport ${transport.name}:`, err);
+            }
+          })
+        );
+        send({ type: 'closed' });
+        port.close();
+      }
+    });
+  });
+}
+
+/**
+ * @internal
+ */
+async function createTransport(spec: WorkerTransportTarget): Promise<LogTransport> {
+  let TransportClass = BUILT_IN[spec.target];
+
+  if (!TransportClass) {
+    const module = (await import(spec.target)) as Record<string, unknown>;
+    const exported = module[spec.exportName ?? 'default'];
+    if (typeof exported !== 'function') {
+      throw new Error(
+        `Module '${spec.target}' has no transport export '${spec.exportName ?? 'default'}'`
+      );
+    }
+    TransportClass = exported as TransportClass;
+  }
+
+  return new TransportClass(spec.options as never);
+}
+
+if (!isMainThread && parentPort) {
+  startWorker(parentPort, workerData as WorkerInitData);
+}
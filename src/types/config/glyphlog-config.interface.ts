@@ -0,0 +1,69 @@
+import type { LogLevelString } from '../enums/log-level.enum.js';
+
+/**
+ * Level name in a configuration, case-insensitive, e.g. 'debug'
+ */
+export type LevelName = Lowercase<LogLevelString>;
+
+/**
+ * Formatter in a configuration: a name, or a name with the formatter options
+ */
+export type FormatterSpec =
+  | 'json'
+  | 'simple'
+  | 'console'
+  | 'dev'
+  | { type: 'json' | 'simple' | 'console' | 'dev' | 'pattern'; [option: string]: unknown };
+
+/**
+ * Transport in a configuration, with the options of its constructor
+ */
+export interface TransportSpec {
+  type: 'console' | 'file' | 'http' | 'memory' | 'stream' | 'syslog';
+  level?: LevelName; // defaults to 'trace', leaving filtering to logger levels
+  formatter?: FormatterSpec;
+  route?: {
+    include?: Record<string, unknown> | Record<string, unknown>[]; // conditions by entry path
+    exclude?: Record<string, unknown> | Record<string, unknown>[];
+  };
+  middleware?: MiddlewareSpec[]; // run for this transport only
+  [option: string]: unknown;
+}
+
+/**
+ * Built-in middleware in a configuration, with its options
+ */
+export interface MiddlewareSpec {
+  type:
+    | 'sanitize'
+    | 'caller'
+    | 'timestamp'
+    | 'sample'
+    | 'sampleBy'
+    | 'rateLimit'
+    | 'dedupe'
+    | 'redact';
+  name?: string; // to remove the middleware with removeMiddleware()
+  [option: string]: unknown;
+}
+
+/**
+ * Logger settings in a configuration
+ */
+export interface LoggerSpec {
+  level?: LevelName;
+  silent?: boolean;
+  exitOnError?: boolean;
+  exitTimeout?: number; // in milliseconds
+  defaultMeta?: Record<string, unknown>;
+  transports?: TransportSpec[];
+}
+
+/**
+ * Contents of a JSON configuration file read by `loadConfig`
+ */
+export interface GlyphLogConfig extends LoggerSpec {
+  middleware?: MiddlewareSpec[];
+  loggers?: Record<string, LoggerSpec & { middleware?: MiddlewareSpec[] }>; // by logger name
+  namespaces?: string | string[]; // DEBUG style level rules, e.g. 'api.*=debug,-api.db.*'
+}
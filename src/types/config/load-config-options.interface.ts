@@ -0,0 +1,10 @@
+import type { LogTransport } from '../transports/log-transport.interface.js';
+
+/**
+ * Options of `loadConfig`
+ */
+export interface LoadConfigOptions {
+  file?: string; // JSON configuration file, defaults to GLYPHLOG_CONFIG
+  env?: Record<string, string | undefined>; // defaults to process.env
+  transports?: LogTransport[]; // created by an earlier loadConfig(), kept if their options are unchanged
+}
@@ -0,0 +1,17 @@
+/* globals NodeJS */
+import type { LoggerFactory } from '../../factory.js';
+import type { LoggerFactoryOptions } from '../logger/logger-factory-options.interface.js';
+
+/**
+ * Options of `watchConfig`
+ */
+export interface WatchConfigOptions {
+  file?: string; // JSON configuration file, defaults to GLYPHLOG_CONFIG
+  env?: Record<string, string | undefined>; // defaults to process.env
+  factory?: LoggerFactory; // reconfigured on changes, defaults to the singleton
+  watch?: boolean; // reload when the file changes, defaults to true when there is a file
+  signal?: NodeJS.Signals | false; // reload on this signal, defaults to SIGUSR2
+  debounce?: number; // in milliseconds, delay collapsing bursts of file events, defaults to 100
+  onReload?: (options: LoggerFactoryOptions) => void; // called after each applied reload
+  onError?: (error: unknown) => void; // called when a reload fails, defaults to console.error
+}
@@ -0,0 +1,48 @@
+import type { LogLevelString } from '../enums/log-level.enum.js';
+import type { SerializeOptions } from '../serializers/serialize-options.interface.js';
+import type { LogFormatter } from './log-formatter.interface.js';
+
+/**
+ * Syslog message format: RFC 5424, or the older BSD format of RFC 3164
+ */
+export type SyslogFormat = 'rfc5424' | 'rfc3164';
+
+/**
+ * Syslog facility names
+ */
+export type SyslogFacility =
+  | 'kern'
+  | 'user'
+  | 'mail'
+  | 'daemon'
+  | 'auth'
+  | 'syslog'
+  | 'lpr'
+  | 'news'
+  | 'uucp'
+  | 'cron'
+  | 'authpriv'
+  | 'ftp'
+  | 'local0'
+  | 'local1'
+  | 'local2'
+  | 'local3'
+  | 'local4'
+  | 'local5'
+  | 'local6'
+  | 'local7';
+
+/**
+ * Syslog formatter options
+ */
+export interface SyslogFormatterOptions extends SerializeOptions {
+  format?: SyslogFormat; // defaults to rfc5424
+  facility?: SyslogFacility | number; // defaults to user (1)
+  appName?: string; // defaults to the process title
+  hostname?: string; // defaults to os.hostname()
+  procId?: string | number; // defaults to process.pid
+  msgId?: string; // RFC 5424 only
+  structuredDataId?: string; // SD-ID of the metadata element, defaults to meta@32473
+  severities?: Partial<Record<LogLevelString, number>>; // overrides of the level mapping
+  message?: LogFormatter; // formats the MSG part, defaults to message, context and error
+}
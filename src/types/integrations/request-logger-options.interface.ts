@@ -0,0 +1,15 @@
+import type { IncomingMessage } from 'http';
+import type { LogLevel } from '../enums/log-level.enum.js';
+
+/**
+ * Options for the HTTP request logging middleware
+ */
+export interface RequestLoggerOptions {
+  requestIdHeader?: string; // defaults to 'x-request-id'
+  generateRequestId?: () => string; // defaults to crypto.randomUUID
+  setResponseHeader?: boolean; // echo the request ID in the response, defaults to true
+  requestProperty?: string; // where the child logger is attached, defaults to 'log'
+  logStart?: boolean; // defaults to true
+  getLevel?: (statusCode: number) => LogLevel;
+  ignore?: (req: IncomingMessage) => boolean;
+}
@@ -11,4 +11,7 @@ export interface LogEntry {
   context?: Record<string, unknown>;
   error?: Error;
   meta?: LogMeta;
+  traceId?: string;
+  spanId?: string;
+  traceFlags?: number;
 }
@@ -9,5 +9,9 @@ export interface LogMeta {
   service?: string;
   version?: string;
   environment?: string;
+  traceId?: string;
+  spanId?: string;
+  traceFlags?: number;
+  parentSpanId?: string;
   [key: string]: unknown;
 }
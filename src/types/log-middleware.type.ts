@@ -1,6 +1,14 @@
 import type { LogEntry } from './log-entry.interface.js';
 
 /**
- * Middleware function for processing log entries
+ * Middleware function for processing log entries.
+ * Call `next()` to pass the entry on; not calling it drops the entry.
+ * `emit()` injects an additional entry, processed by the middleware that follow this one.
+ * Asynchronous middleware returns a promise and calls `next()` before it resolves.
+ * Middleware holding entries back, such as summaries, emits them when `flush()` is called,
+ * which the logger does when it is flushed or closed.
  */
-export type LogMiddleware = (entry: LogEntry, next: () => void) => void;
+export type LogMiddleware = {
+  (entry: LogEntry, next: () => void, emit: (entry: LogEntry) => void): void | Promise<void>;
+  flush?: () => void; // emits the entries held back right away
+};
@@ -0,0 +1,15 @@
+import type { LogEntry } from '../log-entry.interface.js';
+
+/**
+ * Result of a context validator: `true` or nothing accepts the entry, `false` drops it,
+ * and a list of problems is recorded in `entry.meta.contextErrors`
+ */
+export type ContextValidationResult = boolean | string[] | undefined | void;
+
+/**
+ * Runtime check of the context of entries logged with one
+ */
+export type ContextValidator = (
+  context: Record<string, unknown>,
+  entry: LogEntry
+) => ContextValidationResult;
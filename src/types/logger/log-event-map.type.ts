@@ -0,0 +1,4 @@
+/**
+ * Maps event names to the shape of their context, for `logger.event()`
+ */
+export type LogEventMap = Record<string, object>;
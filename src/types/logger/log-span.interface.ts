@@ -0,0 +1,13 @@
+import type { TraceContext } from '../trace-context.interface.js';
+
+/**
+ * A timed operation created by `Logger.startSpan()`
+ */
+export interface LogSpan extends TraceContext {
+  name: string;
+  traceFlags: number;
+  parentSpanId?: string;
+  end(context?: Record<string, unknown>): void;
+  run<T>(fn: () => T): T;
+  traceparent(): string;
+}
@@ -1,6 +1,10 @@
 import { LogLevel } from '../enums/log-level.enum.js';
 import type { LogMeta } from '../log-meta.interface.js';
+import type { LogMiddleware } from '../log-middleware.type.js';
+import type { NamedMiddleware } from '../named-middleware.interface.js';
+import type { TraceContextProvider } from '../trace-context.interface.js';
 import type { LogTransport } from '../transports/log-transport.interface.js';
+import type { ContextValidator } from './context-validator.type.js';
 
 /**
  * Logger configuration
@@ -10,5 +14,10 @@ export interface LoggerConfig {
   transports?: LogTransport[];
   defaultMeta?: LogMeta;
   exitOnError?: boolean;
+  exitTimeout?: number; // in milliseconds, how long fatal() waits for transports before exiting
   silent?: boolean;
+  middleware?: (LogMiddleware | NamedMiddleware)[]; // run in order before those added with use()
+  middlewareTimeout?: number; // in milliseconds, for each asynchronous or late middleware, defaults to 1000
+  traceContext?: TraceContextProvider;
+  contextValidator?: ContextValidator;
 }
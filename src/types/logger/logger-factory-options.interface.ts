@@ -1,4 +1,5 @@
 import type { LogMiddleware } from '../log-middleware.type.js';
+import type { NamedMiddleware } from '../named-middleware.interface.js';
 import type { LoggerConfig } from './logger-config.interface.js';
 
 /**
@@ -6,5 +7,7 @@ import type { LoggerConfig } from './logger-config.interface.js';
  */
 export interface LoggerFactoryOptions {
   defaultConfig?: Partial<LoggerConfig>;
-  middleware?: LogMiddleware[];
+  middleware?: (LogMiddleware | NamedMiddleware)[]; // run before the middleware of each logger
+  loggers?: Record<string, Partial<LoggerConfig>>; // settings of loggers and their descendants, by name
+  namespaces?: string | string[]; // DEBUG style level rules, e.g. 'api.*=debug,-api.db.*'
 }
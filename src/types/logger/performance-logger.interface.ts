@@ -1,3 +1,5 @@
+import type { LogSpan } from './log-span.interface.js';
+
 /**
  * Performance logging interface
  */
@@ -6,4 +8,5 @@ export interface PerformanceLogger {
   timeEnd(label: string): void;
   profile(label: string): void;
   profileEnd(label: string): void;
+  startSpan(name: string, context?: Record<string, unknown>): LogSpan;
 }
@@ -1,24 +1,60 @@
 import { LogLevel } from '../enums/log-level.enum.js';
+import type { LogContext } from '../log-context.type.js';
 import type { LogMeta } from '../log-meta.interface.js';
+import type { LogMiddleware } from '../log-middleware.type.js';
 import type { LogTransport } from '../transports/log-transport.interface.js';
+import type { LogEventMap } from './log-event-map.type.js';
 
 /**
  * Typed logging methods interface
+ * @typeParam TMeta - Metadata carried by the logger, narrowed by `child()`.
+ * @typeParam TContext - Shape of the context accepted by the logging methods.
+ * @typeParam TEvents - Event names and context shapes accepted by `event()`.
  */
-export interface TypedLogger {
-  trace(message: string, context?: Record<string, unknown>): void;
-  debug(message: string, context?: Record<string, unknown>): void;
-  info(message: string, context?: Record<string, unknown>): void;
-  warn(message: string, context?: Record<string, unknown>): void;
-  error(message: string, error?: Error, context?: Record<string, unknown>): void;
-  fatal(message: string, error?: Error, context?: Record<string, unknown>): void;
+export interface TypedLogger<
+  TMeta extends object = LogMeta,
+  TContext extends object = LogContext,
+  TEvents extends object = LogEventMap,
+> {
+  trace(message: string, context?: TContext): void;
+  debug(message: string, context?: TContext): void;
+  info(message: string, context?: TContext): void;
+  warn(message: string, context?: TContext): void;
+  error(message: string, error?: Error, context?: TContext): void;
+  fatal(message: string, error?: Error, context?: TContext): void;
+
+  /**
+   * Logs a named event, using its name as the message.
+   * @param name - The event name, a key of the event map.
+   * @param context - The context declared for the event.
+   * @param level - Defaults to `INFO`.
+   */
+  event<TName extends keyof TEvents & string>(
+    name: TName,
+    context: TEvents[TName],
+    level?: LogLevel
+  ): void;
 
   // Convenience methods
-  log(level: LogLevel, message: string, context?: Record<string, unknown>, error?: Error): void;
-  child(meta: LogMeta): TypedLogger;
+  log(level: LogLevel, message: string, context?: TContext, error?: Error): void;
+  child<TChildMeta extends Partial<TMeta>>(
+    meta: TChildMeta
+  ): TypedLogger<TMeta & TChildMeta, TContext, TEvents>;
+  runWithContext<T>(meta: LogMeta, fn: () => T): T;
+  withContext<TArgs extends unknown[], TResult>(
+    meta: LogMeta,
+    fn: (...args: TArgs) => TResult
+  ): (...args: TArgs) => TResult;
+  use(middleware: LogMiddleware, name?: string): void;
+  removeMiddleware(middleware: LogMiddleware | string): boolean;
   setLevel(level: LogLevel): void;
   getLevel(): LogLevel;
   addTransport(transport: LogTransport): void;
   removeTransport(name: string): void;
+  setTransports(transports: LogTransport[]): void;
+  getTransports(): LogTransport[];
+  setSilent(silent: boolean): void;
+  isSilent(): boolean;
+  flush(): Promise<void>;
   close(): Promise<void>;
 }
@@ -0,0 +1,9 @@
+import type { LogLevel } from '../enums/log-level.enum.js';
+
+/**
+ * Options for the deduplication middleware
+ */
+export interface DedupeOptions {
+  window?: number; // in milliseconds, defaults to 10000
+  levels?: LogLevel[]; // levels subject to deduplication, defaults to all
+}
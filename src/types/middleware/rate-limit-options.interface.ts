@@ -0,0 +1,13 @@
+import type { LogLevel } from '../enums/log-level.enum.js';
+
+/**
+ * Options for the rate limiting middleware
+ */
+export interface RateLimitOptions {
+  limit: number; // entries allowed per interval, per message template
+  interval?: number; // in milliseconds, defaults to 1000
+  burst?: number; // bucket capacity, defaults to limit
+  levels?: LogLevel[]; // levels subject to the limit, defaults to all
+  summaryLevel?: LogLevel; // level of the summary entry, defaults to WARN
+  maxKeys?: number; // message templates tracked at once, defaults to 10000
+}
@@ -0,0 +1,9 @@
+import type { LogMiddleware } from './log-middleware.type.js';
+
+/**
+ * Middleware registered under a name, to remove or replace it later
+ */
+export interface NamedMiddleware {
+  name: string; // also identifies the middleware in failure reports
+  middleware: LogMiddleware;
+}
@@ -0,0 +1,10 @@
+import { LogLevel } from '../enums/log-level.enum.js';
+
+/**
+ * Rule of a `DEBUG` style namespace specification, e.g. `api.*=debug` or `-api.db.*`
+ */
+export interface NamespaceRule {
+  pattern: string; // namespace where `*` matches any characters, `.` and `:` either separator
+  exclude: boolean; // loggers matching an excluding rule (`-` prefix) are silenced
+  level: LogLevel; // of the loggers matching an including rule, defaults to DEBUG
+}
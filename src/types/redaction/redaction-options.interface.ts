@@ -0,0 +1,42 @@
+/**
+ * How a redacted value is replaced:
+ * - `mask` - by the mask, `[REDACTED]` by default
+ * - `hash` - by a SHA-256 digest prefix, so that equal values can still be correlated
+ * - `partial` - by its last characters only, e.g. `****1234`
+ * - `remove` - removed from its object or array, or from the string for patterns
+ * - a function returning the replacement
+ */
+export type RedactionStrategy =
+  | 'mask'
+  | 'hash'
+  | 'partial'
+  | 'remove'
+  | ((value: unknown) => unknown);
+
+/**
+ * Redaction of the value at a path of the entry
+ */
+export interface RedactionPathRule {
+  path: string; // e.g. 'context.user.card.number' or '*.headers.authorization'
+  strategy?: RedactionStrategy;
+}
+
+/**
+ * Redaction of the parts of string values matching a pattern
+ */
+export interface RedactionPatternRule {
+  pattern: RegExp;
+  strategy?: RedactionStrategy;
+  validate?: (match: string) => boolean; // filters out false positives, e.g. with a checksum
+}
+
+/**
+ * Options of the redaction engine
+ */
+export interface RedactionOptions {
+  paths?: (string | RedactionPathRule)[];
+  patterns?: (RegExp | RedactionPatternRule)[];
+  strategy?: RedactionStrategy; // for rules without their own, defaults to 'mask'
+  mask?: string; // defaults to '[REDACTED]'
+  visibleChars?: number; // characters kept by the partial strategy, defaults to 4
+}
@@ -0,0 +1,8 @@
+/**
+ * Limits applied when converting values to JSON-safe data
+ */
+export interface SerializeOptions {
+  maxDepth?: number; // nesting level beyond which objects become '[Object]' / '[Array]'
+  maxArrayLength?: number; // items kept from arrays and sets
+  maxStringLength?: number; // characters kept from strings
+}
@@ -0,0 +1,19 @@
+/**
+ * Plain object form of an error, safe to pass to `JSON.stringify`
+ */
+export interface SerializedError {
+  name: string;
+  message: string;
+  stack?: string;
+  cause?: unknown; // a SerializedError when the cause is an error
+  errors?: unknown[]; // AggregateError errors
+  [key: string]: unknown; // own enumerable properties, e.g. code or statusCode
+}
+
+/**
+ * Custom serialization of an error class, given the default serialization to extend
+ */
+export type ErrorSerializer<E extends Error = Error> = (
+  error: E,
+  serialized: SerializedError
+) => SerializedError;
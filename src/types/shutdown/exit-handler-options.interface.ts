@@ -0,0 +1,13 @@
+/* globals NodeJS */
+import type { LoggerFactory } from '../../factory.js';
+import type { TypedLogger } from '../logger/typed-logger.interface.js';
+
+/**
+ * Options for the flush-on-exit handler
+ */
+export interface ExitHandlerOptions {
+  logger?: TypedLogger; // logs signals and uncaught errors, defaults to the default logger
+  factory?: LoggerFactory; // whose loggers are closed, defaults to the singleton
+  timeout?: number; // in milliseconds, defaults to 5000
+  signals?: NodeJS.Signals[]; // defaults to SIGINT and SIGTERM
+}
@@ -0,0 +1,13 @@
+/**
+ * Distributed tracing identifiers, as defined by W3C Trace Context
+ */
+export interface TraceContext {
+  traceId: string; // 32 lowercase hex characters
+  spanId: string; // 16 lowercase hex characters
+  traceFlags?: number; // 1 when sampled
+}
+
+/**
+ * Returns the trace context of the current operation, e.g. from an OpenTelemetry span
+ */
+export type TraceContextProvider = () => TraceContext | undefined;
@@ -1,11 +1,14 @@
 import { LogLevel } from '../enums/log-level.enum.js';
+import type { LogFormatter } from '../formatters/log-formatter.interface.js';
+import type { TransportRoutingOptions } from './transport-route.interface.js';
 
 /**
  * Console transport configuration
  */
-export interface ConsoleTransportConfig {
+export interface ConsoleTransportConfig extends TransportRoutingOptions {
   level?: LogLevel;
   colors?: boolean;
   timestamp?: boolean;
   json?: boolean;
+  formatter?: LogFormatter; // takes precedence over colors, timestamp and json
 }
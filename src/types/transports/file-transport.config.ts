@@ -1,12 +1,27 @@
 import { LogLevel } from '../enums/log-level.enum.js';
+import type { LogFormatter } from '../formatters/log-formatter.interface.js';
+import type { TransportRoutingOptions } from './transport-route.interface.js';
+
+/**
+ * Time-based rotation period of the file transport
+ */
+export type RotationFrequency = 'daily' | 'hourly';
 
 /**
  * File transport configuration
  */
-export interface FileTransportConfig {
+export interface FileTransportConfig extends TransportRoutingOptions {
   level?: LogLevel;
   filename: string;
   maxSize?: number; // in bytes
   maxFiles?: number;
+  maxAge?: number; // in milliseconds
+  frequency?: RotationFrequency; // date-stamps file names, e.g. app-2026-10-19.log
+  compress?: boolean; // gzip rotated files
+  bufferSize?: number; // in bytes, writes the buffer once reached
+  flushInterval?: number; // in milliseconds
+  maxBufferSize?: number; // in bytes waiting to be written, new entries are dropped beyond it
+  onRotate?: (rotatedFile: string, activeFile: string) => void | Promise<void>;
   json?: boolean;
+  formatter?: LogFormatter; // takes precedence over json
 }
@@ -1,12 +1,37 @@
 import { LogLevel } from '../enums/log-level.enum.js';
+import type { LogFormatter } from '../formatters/log-formatter.interface.js';
+import type { TransportRoutingOptions } from './transport-route.interface.js';
+
+/**
+ * Which entries to discard when the HTTP transport buffer is full
+ */
+export type HttpDropPolicy = 'oldest' | 'newest' | 'lowest-level';
+
+/**
+ * Exponential backoff settings for failed HTTP deliveries
+ */
+export interface HttpRetryConfig {
+  initialDelay?: number; // in milliseconds
+  maxDelay?: number; // in milliseconds
+  factor?: number;
+  jitter?: number; // ratio between 0 and 1
+  maxRetries?: number;
+}
 
 /**
  * HTTP transport configuration
  */
-export interface HttpTransportConfig {
+export interface HttpTransportConfig extends TransportRoutingOptions {
   level?: LogLevel;
   url: string;
   headers?: Record<string, string>;
   batchSize?: number;
   flushInterval?: number; // in milliseconds
+  formatter?: LogFormatter; // defaults to JsonFormatter
+  json?: boolean; // formatter output is JSON, embedded as-is; defaults to true for JsonFormatter
+  retry?: HttpRetryConfig;
+  maxBufferSize?: number; // in entries
+  dropPolicy?: HttpDropPolicy;
+  spoolDir?: string;
+  maxSpoolFiles?: number;
 }
@@ -1,5 +1,8 @@
 import { LogLevel } from '../enums/log-level.enum.js';
 import type { LogEntry } from '../log-entry.interface.js';
+import type { LogMiddleware } from '../log-middleware.type.js';
+import type { NamedMiddleware } from '../named-middleware.interface.js';
+import type { TransportFilter, TransportRoute } from './transport-route.interface.js';
 
 /**
  * Log transport interface for outputting logs
@@ -7,6 +10,10 @@ import type { LogEntry } from '../log-entry.interface.js';
 export interface LogTransport {
   name: string;
   level: LogLevel;
+  filter?: TransportFilter | undefined; // entries for which it returns false are skipped
+  route?: TransportRoute | undefined; // declarative include and exclude conditions
+  middleware?: (LogMiddleware | NamedMiddleware)[] | undefined; // run for this transport only
   log(entry: LogEntry): Promise<void> | void;
+  flush?(): Promise<void> | void;
   close?(): Promise<void> | void;
 }
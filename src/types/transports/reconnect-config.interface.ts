@@ -0,0 +1,8 @@
+/**
+ * Exponential backoff settings for reconnecting socket transports
+ */
+export interface ReconnectConfig {
+  initialDelay?: number; // in milliseconds
+  maxDelay?: number; // in milliseconds
+  factor?: number;
+}
@@ -0,0 +1,31 @@
+import type { Writable } from 'stream';
+import type { ConnectionOptions } from 'tls';
+import { LogLevel } from '../enums/log-level.enum.js';
+import type { LogFormatter } from '../formatters/log-formatter.interface.js';
+import type { ReconnectConfig } from './reconnect-config.interface.js';
+import type { TransportRoutingOptions } from './transport-route.interface.js';
+
+/**
+ * Connection state events of the stream transport, with their arguments
+ */
+export type StreamTransportEvents = {
+  connect: [];
+  disconnect: [error: Error | undefined]; // the error that closed the connection, if any
+  reconnecting: [attempt: number, delay: number]; // delay in milliseconds
+};
+
+/**
+ * Stream transport configuration: a TCP (or TLS) endpoint, or a custom stream
+ */
+export interface StreamTransportConfig extends TransportRoutingOptions {
+  level?: LogLevel;
+  host?: string; // defaults to localhost
+  port?: number; // required unless a stream is given
+  tls?: boolean | ConnectionOptions; // connects with TLS, with these options
+  stream?: Writable | (() => Writable); // custom sink, a factory is called again to reconnect
+  formatter?: LogFormatter; // defaults to JsonFormatter, one entry per line
+  connectTimeout?: number; // in milliseconds, a slower connection attempt is aborted
+  reconnect?: ReconnectConfig | false; // false: a closed connection is not reopened
+  maxBufferSize?: number; // in entries kept while disconnected or under backpressure
+  end?: boolean; // close() ends the stream, defaults to true
+}
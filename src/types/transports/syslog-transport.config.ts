@@ -0,0 +1,35 @@
+import { LogLevel } from '../enums/log-level.enum.js';
+import type { LogFormatter } from '../formatters/log-formatter.interface.js';
+import type { SyslogFormatterOptions } from '../formatters/syslog-formatter-options.interface.js';
+import type { ReconnectConfig } from './reconnect-config.interface.js';
+import type { TransportRoutingOptions } from './transport-route.interface.js';
+
+/**
+ * How syslog messages are delivered
+ */
+export type SyslogProtocol = 'udp' | 'tcp' | 'unix';
+
+/**
+ * How messages are delimited on stream connections (RFC 6587)
+ */
+export type SyslogFraming = 'octet-counting' | 'newline';
+
+/**
+ * Syslog transport configuration
+ */
+export interface SyslogTransportConfig
+  extends TransportRoutingOptions,
+    Omit<SyslogFormatterOptions, 'message'> {
+  level?: LogLevel;
+  protocol?: SyslogProtocol; // defaults to udp
+  host?: string; // defaults to localhost
+  port?: number; // defaults to 514
+  path?: string; // unix stream socket, required with the unix protocol
+  framing?: SyslogFraming; // defaults to octet-counting over tcp, newline over unix
+  formatter?: LogFormatter; // formats the whole message, defaults to SyslogFormatter
+  messageFormatter?: LogFormatter; // formats the MSG part of the default formatter
+  connectTimeout?: number; // in milliseconds, a slower connection attempt is aborted
+  reconnect?: ReconnectConfig;
+  maxBufferSize?: number; // in messages kept while disconnected
+  maxMessageSize?: number; // in bytes, longer udp messages are truncated
+}
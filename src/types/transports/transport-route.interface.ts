@@ -0,0 +1,43 @@
+import type { LogEntry } from '../log-entry.interface.js';
+import type { LogMiddleware } from '../log-middleware.type.js';
+import type { NamedMiddleware } from '../named-middleware.interface.js';
+
+/**
+ * Value a route condition expects: a string with `*` wildcards, a regular expression tested
+ * against strings, another value compared with `===`, or a list of alternatives
+ */
+export type RouteValue =
+  | string
+  | number
+  | boolean
+  | null
+  | RegExp
+  | (string | number | boolean | null | RegExp)[];
+
+/**
+ * Condition on the fields of an entry, by dotted path (e.g. `meta.logger`, `context.healthcheck`).
+ * An entry satisfies it when every field matches.
+ */
+export type RouteCondition = Record<string, RouteValue>;
+
+/**
+ * Declarative routing rules of a transport
+ */
+export interface TransportRoute {
+  include?: RouteCondition | RouteCondition[]; // entries must satisfy one of the conditions
+  exclude?: RouteCondition | RouteCondition[]; // entries satisfying one of them are skipped
+}
+
+/**
+ * Predicate deciding whether a transport receives an entry
+ */
+export type TransportFilter = (entry: LogEntry) => boolean;
+
+/**
+ * Options selecting and preparing the entries of a transport, common to all transports
+ */
+export interface TransportRoutingOptions {
+  filter?: TransportFilter; // applied after the level
+  route?: TransportRoute; // applied after the filter
+  middleware?: (LogMiddleware | NamedMiddleware)[]; // run on a copy of the accepted entries
+}
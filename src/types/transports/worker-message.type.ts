@@ -0,0 +1,29 @@
+import type { EncodedLogEntry } from '../../utils/entry-codec.js';
+import type { WorkerTransportTarget } from './worker-transport.config.js';
+
+/**
+ * Data the worker transport starts its worker thread with
+ */
+export interface WorkerInitData {
+  entry: string; // URL of the worker script
+  preload: string[];
+  targets: WorkerTransportTarget[];
+  queued: SharedArrayBuffer; // Int32Array counter of entries not yet handled by the worker
+}
+
+/**
+ * Messages sent from the main thread to the worker thread
+ */
+export type WorkerRequest =
+  | { type: 'log'; entries: EncodedLogEntry[] }
+  | { type: 'flush' }
+  | { type: 'close' };
+
+/**
+ * Messages sent from the worker thread to the main thread
+ */
+export type WorkerResponse =
+  | { type: 'ready' }
+  | { type: 'error'; message: string }
+  | { type: 'flushed' }
+  | { type: 'closed' };
@@ -0,0 +1,30 @@
+import { LogLevel } from '../enums/log-level.enum.js';
+import type { TransportRoutingOptions } from './transport-route.interface.js';
+
+/**
+ * What the worker transport does when its queue is full
+ */
+export type WorkerOverflowPolicy = 'drop' | 'block';
+
+/**
+ * A transport created inside the worker thread. Options cross the thread boundary, so they
+ * must be structured-cloneable: formatter instances and callbacks cannot be passed.
+ */
+export interface WorkerTransportTarget {
+  target: string; // 'console', 'file', 'http', 'stream', 'syslog', or a module path/URL exporting a transport class
+  exportName?: string; // export of a target module, defaults to 'default'
+  options?: Record<string, unknown>;
+}
+
+/**
+ * Worker transport configuration
+ */
+export interface WorkerTransportConfig extends TransportRoutingOptions {
+  level?: LogLevel; // defaults to TRACE, targets apply their own levels
+  targets: WorkerTransportTarget[];
+  maxQueueSize?: number; // in entries
+  overflow?: WorkerOverflowPolicy;
+  blockTimeout?: number; // in milliseconds, then the entry is dropped
+  closeTimeout?: number; // in milliseconds
+  preload?: string[]; // modules imported in the worker first, e.g. to register loader hooks
+}
@@ -0,0 +1,31 @@
+import { serializeError } from '../serializers/index.js';
+import { LogEntry } from '../types/log-entry.interface.js';
+import { SerializedError } from '../types/serializers/serialized-error.interface.js';
+
+/**
+ * A log entry whose error was serialized with `serializeError`, so that it survives
+ * structured cloning with its name, stack, cause and custom properties.
+ */
+export type EncodedLogEntry = Omit<LogEntry, 'error'> & { error?: SerializedError };
+
+/**
+ * Converts an entry for transfer to another thread. Dates are kept as they are, since
+ * structured cloning preserves them.
+ * @param entry - The entry to encode.
+ */
+export function encodeEntry(entry: LogEntry): EncodedLogEntry {
+  const { error, ...rest } = entry;
+  return error ? { ...rest, error: serializeError(error) } : rest;
+}
+
+/**
+ * Restores an entry encoded with `encodeEntry`.
+ * @param encoded - The encoded entry.
+ */
+export function decodeEntry(encoded: EncodedLogEntry): LogEntry {
+  const { error, ...rest } = encoded;
+  if (!error) return rest;
+
+  const { message, ...properties } = error;
+  return { ...rest, error: Object.assign(new Error(message), properties) };
+}
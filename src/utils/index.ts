@@ -0,0 +1,6 @@
+export * from './log-query.js';
+export * from './log-files.js';
+export * from './log-file-reader.js';
+export * from './entry-codec.js';
+export * from './middleware.js';
+export * from './transport-route.js';
@@ -0,0 +1,252 @@
+/* globals NodeJS */
+import { createReadStream } from 'fs';
+import { Readable, pipeline } from 'stream';
+import { createInterface } from 'readline';
+import { createGunzip } from 'zlib';
+import { LogLevel, LogLevelString } from '../types/enums/log-level.enum.js';
+import { LogEntry } from '../types/log-entry.interface.js';
+import { LogQuery } from '../types/log-query.interface.js';
+import { listLogFiles } from './log-files.js';
+import { queryEntriesAsync } from './log-query.js';
+
+const SIMPLE_LINE = /^(\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?Z) \[([A-Z]+)\] ?(.*)$/;
+const STACK_PREFIX = 'STACK: ';
+const ERROR_SEPARATOR = ' ERROR: ';
+
+/**
+ * Streams the entries matching a query from a log file and its rotated siblings.
+ * Rotated files (`app.log.N` ... `app.log.1`, date-stamped and gzipped files) are read
+ * before the active file, so entries come out oldest first. Both `JsonFormatter` and
+ * `SimpleFormatter` output are understood; lines that cannot be parsed are skipped.
+ * @param filename - Path of the active log file, as given to `FileTransport`.
+ * @param query - The query to apply. Defaults to matching every entry.
+ */
+export async function* queryLogFiles(
+  filename: string,
+  query: LogQuery = {}
+): AsyncGenerator<LogEntry> {
+  const files = await listLogFiles(filename);
+  yield* queryEntriesAsync(readLogFiles(files), query);
+}
+
+/**
+ * Reads every entry of a single log file, in file order. Files ending in `.gz` are decompressed.
+ * @param file - Path of the log file to read.
+ */
+export async function* readLogFile(file: string): AsyncGenerator<LogEntry> {
+  const input: Readable = file.endsWith('.gz')
+    ? pipeline(createReadStream(file), createGunzip(), () => {}) // errors surface through readline
+    : createReadStream(file);
+  const lines = createInterface({ input: input.setEncoding('utf8'), crlfDelay: Infinity });
+
+  let pending: SimpleEntryText | undefined;
+
+  for await (const line of lines) {
+    if (line.trim() === '') continue;
+
+    const jsonEntry = line.startsWith('{') ? parseJsonLine(line) : undefined;
+    if (jsonEntry) {
+      if (pending) yield parseSimpleEntry(pending);
+      pending = undefined;
+      yield jsonEntry;
+      continue;
+    }
+
+    const header = parseSimpleHeader(line);
+    if (header) {
+      if (pending) yield parseSimpleEntry(pending);
+      pending = header;
+      continue;
+    }
+
+    // Continuation of a multi-line SimpleFormatter entry: message lines, then the error stack
+    if (!pending) continue;
+    if (pending.stack === undefined && line.startsWith(STACK_PREFIX)) {
+      pending.stack = line.slice(STACK_PREFIX.length);
+    } else if (pending.stack !== undefined) {
+      pending.stack += `\n${line}`;
+    } else {
+      pending.text += `\n${line}`;
+    }
+  }
+
+  if (pending) yield parseSimpleEntry(pending);
+}
+
+/**
+ * Chains the entries of several files.
+ * @internal
+ */
+async function* readLogFiles(files: string[]): AsyncGenerator<LogEntry> {
+  for (const file of files) {
+    try {
+      yield* readLogFile(file);
+    } catch (error) {
+      // A file may be rotated away while being read
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+  }
+}
+
+/**
+ * Parses a line written by `JsonFormatter`.
+ * @internal
+ */
+function parseJsonLine(line: string): LogEntry | undefined {
+  let parsed: Record<string, unknown>;
+  try {
+    parsed = JSON.parse(line) as Record<string, unknown>;
+  } catch {
+    return undefined;
+  }
+
+  const level = parseLevel(parsed.level);
+  const timestamp = typeof parsed.timestamp === 'string' ? new Date(parsed.timestamp) : undefined;
+  if (level === undefined || !timestamp || isNaN(timestamp.getTime())) return undefined;
+
+  const entry: LogEntry = {
+    level,
+    message: typeof parsed.message === 'string' ? parsed.message : '',
+    timestamp,
+  };
+
+  if (typeof parsed.traceId === 'string') entry.traceId = parsed.traceId;
+  if (typeof parsed.spanId === 'string') entry.spanId = parsed.spanId;
+  if (typeof parsed.traceFlags === 'number') entry.traceFlags = parsed.traceFlags;
+  if (isRecord(parsed.context)) entry.context = parsed.context;
+  if (isRecord(parsed.meta)) entry.meta = parsed.meta;
+  if (isRecord(parsed.error)) {
+    const { name, message, stack, ...properties } = parsed.error;
+    // Keeps serialized properties such as code and cause
+    const error = Object.assign(new Error(typeof message === 'string' ? message : ''), properties);
+    error.name = typeof name === 'string' ? name : 'Error';
+    if (typeof stack === 'string') {
+      error.stack = stack;
+    } else {
+      delete error.stack;
+    }
+    entry.error = error;
+  }
+
+  return entry;
+}
+
+/**
+ * Parses the first line of an entry written by `SimpleFormatter`.
+ * @internal
+ */
+function parseSimpleHeader(line: string): SimpleEntryText | undefined {
+  const match = SIMPLE_LINE.exec(line);
+  if (!match) return undefined;
+
+  const [, isoTime = '', levelName, rest = ''] = match;
+  const level = parseLevel(levelName);
+  if (level === undefined) return undefined;
+
+  return { level, timestamp: new Date(isoTime), text: rest };
+}
+
+/**
+ * Builds an entry from the lines written by `SimpleFormatter`: the message, then the
+ * context, then ` ERROR: ` and the error message, then the stack on its own lines.
+ *
+ * Messages and context values may contain ` ERROR: ` too, so it only separates an error when
+ * it follows the context or, without a context, when a stack follows.
+ * @internal
+ */
+function parseSimpleEntry({ level, timestamp, text, stack }: SimpleEntryText): LogEntry {
+  let body = text;
+  let errorMessage: string | undefined;
+  let split: { message: string; context?: Record<string, unknown> } | undefined;
+
+  for (
+    let index = text.indexOf(ERROR_SEPARATOR);
+    index !== -1;
+    index = text.indexOf(ERROR_SEPARATOR, index + 1)
+  ) {
+    const beforeError = splitContext(text.slice(0, index));
+    if (beforeError.context) {
+      split = beforeError;
+      errorMessage = text.slice(index + ERROR_SEPARATOR.length);
+      break;
+    }
+  }
+
+  const errorIndex = text.lastIndexOf(ERROR_SEPARATOR);
+  if (!split && stack !== undefined && errorIndex !== -1) {
+    body = text.slice(0, errorIndex);
+    errorMessage = text.slice(errorIndex + ERROR_SEPARATOR.length);
+  }
+
+  const { message, context } = split ?? splitContext(body);
+  const entry: LogEntry = { level, message, timestamp };
+  if (context) entry.context = context;
+
+  if (errorMessage !== undefined) {
+    const error = new Error(errorMessage);
+    if (stack !== undefined) {
+      error.stack = stack;
+      error.name = inferErrorName(stack);
+    } else {
+      delete error.stack;
+    }
+    entry.error = error;
+  }
+
+  return entry;
+}
+
+/**
+ * Splits a trailing JSON context object from a message.
+ * @internal
+ */
+function splitContext(body: string): { message: string; context?: Record<string, unknown> } {
+  if (!body.endsWith('}')) return { message: body };
+
+  for (let index = body.indexOf(' {'); index !== -1; index = body.indexOf(' {', index + 1)) {
+    try {
+      const context: unknown = JSON.parse(body.slice(index + 1));
+      if (isRecord(context)) return { message: body.slice(0, index), context };
+    } catch {
+      // Not the start of the context, keep looking
+    }
+  }
+
+  return { message: body };
+}
+
+/**
+ * Reads the error name from the first line of a stack trace.
+ * @internal
+ */
+function inferErrorName(stack: string): string {
+  const match = /^([A-Za-z_$][\w$]*)(?::|$)/.exec(stack);
+  return match?.[1] ?? 'Error';
+}
+
+/**
+ * Resolves a level name such as `INFO` to its `LogLevel`.
+ * @internal
+ */
+function parseLevel(value: unknown): LogLevel | undefined {
+  if (typeof value !== 'string') return undefined;
+  return LogLevel[value.toUpperCase() as LogLevelString] as LogLevel | undefined;
+}
+
+/**
+ * @internal
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Text of an entry written by `SimpleFormatter`, collected line by line.
+ * @internal
+ */
+interface SimpleEntryText {
+  level: LogLevel;
+  timestamp: Date;
+  text: string; // the message, context and error message
+  stack?: string; // the lines after `STACK: `
+}
@@ -0,0 +1,67 @@
+import dayjs from 'dayjs';
+import fs from 'fs/promises';
+import path from 'path';
+import { RotationFrequency } from '../types/transports/file-transport.config.js';
+
+const STAMP_FORMATS: Record<RotationFrequency, string> = {
+  daily: 'YYYY-MM-DD',
+  hourly: 'YYYY-MM-DD-HH',
+};
+
+/**
+ * Returns the date-stamped name of a log file for the period containing `date`,
+ * e.g. `logs/app.log` becomes `logs/app-2026-10-19.log` with daily rotation.
+ * @param filename - The configured log file name.
+ * @param frequency - The rotation frequency, or `undefined` for size-based rotation only.
+ * @param date - The date to stamp.
+ */
+export function datedFilename(
+  filename: string,
+  frequency: RotationFrequency | undefined,
+  date: Date
+): string {
+  if (!frequency) return filename;
+
+  const ext = path.extname(filename);
+  const stem = filename.slice(0, filename.length - ext.length);
+  return `${stem}-${dayjs(date).format(STAMP_FORMATS[frequency])}${ext}`;
+}
+
+/**
+ * Lists every file belonging to a log: the active file, date-stamped files, numbered
+ * rotations and their gzipped versions, oldest first.
+ * @param filename - The configured log file name.
+ */
+export async function listLogFiles(filename: string): Promise<string[]> {
+  const dir = path.dirname(filename);
+  const base = path.basename(filename);
+  const ext = path.extname(base);
+  const stem = base.slice(0, base.length - ext.length);
+  const pattern = new RegExp(
+    `^${escape(stem)}(?:-(\\d{4}-\\d{2}-\\d{2}(?:-\\d{2})?))?${escape(ext)}(?:\\.(\\d+))?(?:\\.gz)?$`
+  );
+
+  let names: string[];
+  try {
+    names = await fs.readdir(dir);
+  } catch {
+    return [];
+  }
+
+  return names
+    .map(name => {
+      const match = pattern.exec(name);
+      if (!match) return undefined;
+      return { name, stamp: match[1] ?? '', index: match[2] ? parseInt(match[2], 10) : 0 };
+    })
+    .filter((file): file is { name: string; stamp: string; index: number } => file !== undefined)
+    .sort((a, b) => a.stamp.localeCompare(b.stamp) || b.index - a.index)
+    .map(file => path.join(dir, file.name));
+}
+
+/**
+ * @internal
+ */
+function escape(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
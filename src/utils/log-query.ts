@@ -0,0 +1,122 @@
+import { LogEntry } from '../types/log-entry.interface.js';
+import { LogQuery } from '../types/log-query.interface.js';
+
+/**
+ * Checks whether a log entry satisfies every criterion of a query.
+ * Pagination (`limit`/`offset`) is not evaluated here, see `paginate`.
+ * @param entry - The log entry to test.
+ * @param query - The query to match against.
+ * @returns `true` if the entry matches the query.
+ */
+export function matchesQuery(entry: LogEntry, query: LogQuery): boolean {
+  if (query.level !== undefined) {
+    const levels = Array.isArray(query.level) ? query.level : [query.level];
+    if (!levels.includes(entry.level)) return false;
+  }
+
+  const time = entry.timestamp.getTime();
+  if (query.startTime && time < query.startTime.getTime()) return false;
+  if (query.endTime && time > query.endTime.getTime()) return false;
+
+  if (query.message !== undefined) {
+    if (typeof query.message === 'string') {
+      if (!entry.message.includes(query.message)) return false;
+    } else {
+      query.message.lastIndex = 0;
+      if (!query.message.test(entry.message)) return false;
+    }
+  }
+
+  if (query.context && !isPartialMatch(entry.context ?? {}, query.context)) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Filters an iterable of entries with a query, applying `offset` and `limit`.
+ * Iteration stops as soon as `limit` matches have been collected.
+ * @param entries - The entries to search, in chronological order.
+ * @param query - The query to apply.
+ * @returns The matching entries.
+ */
+export function queryEntries(entries: Iterable<LogEntry>, query: LogQuery): LogEntry[] {
+  const results: LogEntry[] = [];
+  let skipped = 0;
+
+  if (query.limit === 0) return results;
+
+  for (const entry of entries) {
+    if (!matchesQuery(entry, query)) continue;
+
+    if (skipped < (query.offset ?? 0)) {
+      skipped++;
+      continue;
+    }
+
+    results.push(entry);
+    if (query.limit !== undefined && results.length >= query.limit) break;
+  }
+
+  return results;
+}
+
+/**
+ * Async counterpart of `queryEntries`, yielding matches as they are found.
+ * @param entries - An async source of entries, in chronological order.
+ * @param query - The query to apply.
+ */
+export async function* queryEntriesAsync(
+  entries: AsyncIterable<LogEntry>,
+  query: LogQuery
+): AsyncGenerator<LogEntry> {
+  let skipped = 0;
+  let yielded = 0;
+
+  if (query.limit === 0) return;
+
+  for await (const entry of entries) {
+    if (!matchesQuery(entry, query)) continue;
+
+    if (skipped < (query.offset ?? 0)) {
+      skipped++;
+      continue;
+    }
+
+    yield entry;
+    yielded++;
+    if (query.limit !== undefined && yielded >= query.limit) return;
+  }
+}
+
+/**
+ * Recursively checks that every property of `expected` is present in `actual`.
+ * Objects are matched partially, arrays and primitives must be equal.
+ * @internal
+ */
+function isPartialMatch(actual: unknown, expected: unknown): boolean {
+  if (Array.isArray(expected)) {
+    return (
+      Array.isArray(actual) &&
+      actual.length === expected.length &&
+      expected.every((value, index) => isPartialMatch(actual[index], value))
+    );
+  }
+
+  if (expected instanceof Date) {
+    return actual instanceof Date
+      ? actual.getTime() === expected.getTime()
+      : actual === expected.toISOString();
+  }
+
+  if (typeof expected === 'object' && expected !== null) {
+    if (typeof actual !== 'object' || actual === null) return false;
+
+    return Object.entries(expected).every(([key, value]) =>
+      isPartialMatch((actual as Record<string, unknown>)[key], value)
+    );
+  }
+
+  return actual === expected;
+}
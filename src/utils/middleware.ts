@@ -0,0 +1,33 @@
+import { LogMiddleware } from '../types/log-middleware.type.js';
+import { NamedMiddleware } from '../types/named-middleware.interface.js';
+
+/**
+ * Returns the function of a registered middleware.
+ * @param registered - A middleware, named or not.
+ */
+export function unwrapMiddleware(registered: LogMiddleware | NamedMiddleware): LogMiddleware {
+  return typeof registered === 'function' ? registered : registered.middleware;
+}
+
+/**
+ * Returns the name a middleware was registered under, if any.
+ * @param registered - A middleware, named or not.
+ */
+export function middlewareName(registered: LogMiddleware | NamedMiddleware): string | undefined {
+  return typeof registered === 'function' ? undefined : registered.name;
+}
+
+/**
+ * Tests whether a registered middleware is the given function or was registered under the
+ * given name.
+ * @param registered - A middleware, named or not.
+ * @param middleware - The middleware function, or a name.
+ */
+export function matchesMiddleware(
+  registered: LogMiddleware | NamedMiddleware,
+  middleware: LogMiddleware | string
+): boolean {
+  return typeof middleware === 'string'
+    ? middlewareName(registered) === middleware
+    : unwrapMiddleware(registered) === middleware;
+}
@@ -0,0 +1,148 @@
+import { LogEntry } from '../types/log-entry.interface.js';
+import { LogTransport } from '../types/transports/log-transport.interface.js';
+import {
+  RouteCondition,
+  RouteValue,
+  TransportRoute,
+  TransportRoutingOptions,
+} from '../types/transports/transport-route.interface.js';
+
+type EntryMatcher = (entry: LogEntry) => boolean;
+
+// Routes compiled on first use, so that wildcards are not turned into regular expressions
+// for every entry
+const compiledRoutes = new WeakMap<TransportRoute, EntryMatcher>();
+
+/**
+ * Sets the `filter`, `route` and `middleware` of a transport from its configuration.
+ * @param transport - The transport being constructed.
+ * @param options - Its configuration.
+ * @example
+ * constructor(config: MyTransportConfig) {
+ *   applyRoutingOptions(this, config);
+ * }
+ */
+export function applyRoutingOptions(
+  transport: LogTransport,
+  options: TransportRoutingOptions
+): void {
+  transport.filter = options.filter;
+  transport.route = options.route;
+  transport.middleware = options.middleware;
+}
+
+/**
+ * Checks whether a transport's filter and route accept an entry. Levels are not checked here.
+ * @param transport - The transport, with its optional `filter` and `route`.
+ * @param entry - The entry to test.
+ */
+export function acceptsEntry(
+  transport: Pick<LogTransport, 'filter' | 'route'>,
+  entry: LogEntry
+): boolean {
+  if (transport.filter && !transport.filter(entry)) return false;
+  return !transport.route || matchesRoute(entry, transport.route);
+}
+
+/**
+ * Checks whether an entry satisfies one of the `include` conditions of a route, if any, and
+ * none of its `exclude` conditions. A route is compiled the first time it is used: assign a
+ * new route object rather than changing the conditions of one in use.
+ * @param entry - The entry to test.
+ * @param route - The routing rules.
+ * @example
+ * matchesRoute(entry, { include: { 'meta.logger': 'audit.*' } });
+ * matchesRoute(entry, { exclude: { 'context.healthcheck': true } });
+ */
+export function matchesRoute(entry: LogEntry, route: TransportRoute): boolean {
+  let matcher = compiledRoutes.get(route);
+  if (!matcher) {
+    matcher = compileRoute(route);
+    compiledRoutes.set(route, matcher);
+  }
+  return matcher(entry);
+}
+
+/**
+ * Copies an entry with its metadata and context, so that middleware can change them without
+ * affecting other copies.
+ * @param entry - The entry to copy.
+ */
+export function copyEntry(entry: LogEntry): LogEntry {
+  return {
+    ...entry,
+    ...(entry.meta && { meta: { ...entry.meta } }),
+    ...(entry.context && { context: { ...entry.context } }),
+  };
+}
+
+/**
+ * @internal
+ */
+function compileRoute(route: TransportRoute): EntryMatcher {
+  const include = route.include && toArray(route.include).map(compileCondition);
+  const exclude = route.exclude && toArray(route.exclude).map(compileCondition);
+
+  return entry => {
+    if (include && !include.some(satisfies => satisfies(entry))) return false;
+    return !exclude?.some(satisfies => satisfies(entry));
+  };
+}
+
+/**
+ * @internal
+ */
+function compileCondition(condition: RouteCondition): EntryMatcher {
+  const fields = Object.entries(condition).map(([path, expected]) => ({
+    keys: path.split('.'),
+    matches: compileValue(expected),
+  }));
+  return entry => fields.every(({ keys, matches }) => matches(readPath(entry, keys)));
+}
+
+/**
+ * @internal
+ */
+function readPath(entry: LogEntry, keys: string[]): unknown {
+  let value: unknown = entry;
+  for (const key of keys) {
+    if (typeof value !== 'object' || value === null) return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+/**
+ * @internal
+ */
+function compileValue(expected: RouteValue): (actual: unknown) => boolean {
+  if (Array.isArray(expected)) {
+    const alternatives = expected.map(compileValue);
+    return actual => alternatives.some(matches => matches(actual));
+  }
+
+  if (expected instanceof RegExp) {
+    return actual => {
+      expected.lastIndex = 0;
+      return typeof actual === 'string' && expected.test(actual);
+    };
+  }
+
+  if (typeof expected === 'string' && expected.includes('*')) {
+    const source = expected
+      .split('*')
+      .map(part => part.replace(/[|\\{}()[\]^$+?.]/g, '\\$&'))
+      .join('.*');
+    const pattern = new RegExp(`^${source}$`);
+    return actual => typeof actual === 'string' && pattern.test(actual);
+  }
+
+  return actual => actual === expected;
+}
+
+/**
+ * @internal
+ */
+function toArray<T>(value: T | T[]): T[] {
+  return Array.isArray(value) ? value : [value];
+}